@@ -2,114 +2,251 @@
 /**
  * BACKGROUND SCRIPT (runs once globally)
  * - Receives audio state updates from all content scripts
- * - Stores tab audio states in persistent storage
+ * - Keeps tab audio states in an in-memory store that persists them in batches
  * - Coordinates between content scripts and popup
  * - Sends aggregated audio tab data to popup via port connection
+ * - Keeps the desktop connection going across service worker suspensions: an alarm checks on it, and what the
+ *   connection was doing is kept in session storage so a restarted worker picks up where the old one stopped
+ * - Runs the sleep timer on an alarm and fades out every playing tab when it goes off
+ * - Filters everything about tabs through the privacy settings before it goes to the desktop app
  */
 
 
 import { browser } from 'wxt/browser';
 import { storage } from 'wxt/utils/storage';
-  
-interface TabAudioState {
-  tabId: number;
-  tabUrl: string;
-  tabTitle: string;
-  isAudible: boolean;
-  hasContentAudio: boolean;
-  isMuted: boolean;
-  paused: boolean;
-  volume: number;
-  lastUpdate: number;
-}
+import { createTabStateStore } from '@/utils/tab-state-store';
+import { aggregateFrames, commandFrameIds, removeFrame, upsertFrame } from '@/utils/tab-frames';
+import { isTabMuted, type AudioLevels, type FrameAudioState, type TabAudioState, type TabCommandResult, type TabMuteSource } from '@/utils/tab-state';
+import { deleteSiteRule, saveSiteRule, sitePatternOf, siteRulesStorage, updateSiteRule, type SiteRule } from '@/utils/site-rules';
+import { FLAT_EFFECTS, mergeEffects } from '@/utils/sound-effects';
+import {
+  DEFAULT_PRIVACY_SETTINGS,
+  desktopViewOf,
+  isPatternBlocked,
+  isTabBlocked,
+  loadPrivacySettings,
+  patternOverlapsBlocked,
+  privacySettingsStorage,
+} from '@/utils/privacy';
+import {
+  INACTIVE_NORMALIZATION,
+  loadNormalizationSettings,
+  normalizationSettingsStorage,
+} from '@/utils/normalization';
+import {
+  cancelSleepTimer,
+  extendSleepTimer,
+  remainingSeconds,
+  sleepTimerStorage,
+  startSleepTimer,
+  type SleepTimer,
+} from '@/utils/sleep-timer';
+import { MUTE_RAMP_MS, clampVolume } from '@/utils/volume';
+import { isShortcutCommand, shortcutSettingsStorage, type ShortcutCommand } from '@/utils/shortcuts';
+import {
+  DEFAULT_PLAYBACK_POLICY,
+  isPolicyExempt,
+  playbackPolicyStorage,
+  type PlaybackPolicy,
+} from '@/utils/playback-policy';
+import {
+  DEFAULT_CONNECTION_SETTINGS,
+  connectionSettingsStorage,
+  createNonce,
+  desktopProofMessage,
+  endpointUrl,
+  extensionProofMessage,
+  loadConnectionSettings,
+  proofsEqual,
+  signWithToken,
+  type ConnectionDiagnostics,
+  type ConnectionSettings,
+  type ConnectionStatus,
+} from '@/utils/connection';
+import {
+  adoptOffscreenSocket,
+  listenForOffscreenSocketEvents,
+  openDesktopSocket,
+  type DesktopSocket,
+} from '@/utils/desktop-socket';
+import {
+  EXTENSION_CAPABILITIES,
+  PROTOCOL_VERSION,
+  encodeMessage,
+  negotiateProtocolVersion,
+  parseInboundMessage,
+  type InboundMessage,
+  type NackReason,
+  type OutboundMessage,
+  type RequestId,
+  type TabCommandMessage,
+} from '@/utils/protocol';
 
 // storage to hold tabs and their audio states so they can persist and not lose the data after a while 
+// only the tab state store reads and writes it
 const tabStatesStorage = storage.defineItem<Record<number, TabAudioState>>(
   'local:tabStates',
   { defaultValue: {} }
 );
 
+type DesktopPeer = { protocolVersion: number; capabilities: string[] };
+
+// what a restarted service worker needs to know about the connection the previous one had.
+// session storage lives as long as the browser does, not as long as the worker
+interface ConnectionSession {
+  socketId: string | null; // the socket we had open, an offscreen document may still be holding it
+  desktopPeer: DesktopPeer | null;
+  pairingNonce: string;
+  tauriSeq: number;
+  reconnectAttempts: number;
+  nextRetryAt: number | null; // when the pending backoff retry is due, null when none is pending
+  lastClose: ConnectionDiagnostics['lastClose'];
+  manuallyDisconnected: boolean;
+  desktopWantsLevels: boolean; // the desktop app's SUBSCRIBE_LEVELS, it doesn't send it again for an adopted socket
+}
+
+const connectionSessionStorage = storage.defineItem<ConnectionSession>(
+  'session:connection',
+  {
+    defaultValue: {
+      socketId: null,
+      desktopPeer: null,
+      pairingNonce: '',
+      tauriSeq: 0,
+      reconnectAttempts: 0,
+      nextRetryAt: null,
+      lastClose: null,
+      manuallyDisconnected: false,
+      desktopWantsLevels: false,
+    },
+  }
+);
+
+// wakes the worker up to check on the connection, timers don't survive a suspended worker but alarms do
+const WATCHDOG_ALARM = 'connection-watchdog';
+const WATCHDOG_PERIOD_MINUTES = 1; // the shortest period Chrome allows before 120, shorter ones get raised to it
+// goes off when the sleep timer runs out, recreated whenever the timer in session storage changes
+const SLEEP_TIMER_ALARM = 'sleep-timer';
+
+// what the last keyboard shortcut changed, per tab only the fields it touched, so "restore previous" can put them back.
+// session storage because the worker may well be suspended between the shortcut and the undo
+interface ShortcutUndo {
+  command: ShortcutCommand;
+  tabs: Record<number, Partial<Pick<TabAudioState, 'volume' | 'isMuted' | 'paused'>>>;
+}
+
+const shortcutUndoStorage = storage.defineItem<ShortcutUndo | null>(
+  'session:shortcutUndo',
+  { defaultValue: null }
+);
+
+// what the playback policy did to other tabs, so it can be undone when the foreground tab stops.
+// session storage for the same reason as the connection: the worker may be suspended while a tab is ducked
+interface PolicyState {
+  foregroundTabId: number | null; // the tab the others were paused/ducked for
+  paused: number[]; // tabs we paused, resumed when the foreground stops
+  ducked: Record<number, { original: number; ducked: number }>; // tabs we turned down and the volume they had
+  muted: number[]; // tabs 'focused-only' muted, unmuted when they get focus
+}
+
+const EMPTY_POLICY_STATE: PolicyState = { foregroundTabId: null, paused: [], ducked: {}, muted: [] };
+
+const policyStateStorage = storage.defineItem<PolicyState>(
+  'session:policyState',
+  { defaultValue: EMPTY_POLICY_STATE }
+);
+
+// tabs the sleep timer could only silence with the tab mute, their mute is lifted once the user is back
+const sleepMutedTabsStorage = storage.defineItem<number[]>(
+  'session:sleepMutedTabs',
+  { defaultValue: [] }
+);
+
 let popupPorts: Browser.runtime.Port[] = [];
 
-let socket : WebSocket | null = null;
+// level metering is opt-in: it only runs while the desktop app or an open popup asked for it
+let desktopWantsLevels = false;
+const levelPopupPorts = new Set<Browser.runtime.Port>();
+const pendingLevels = new Map<number, AudioLevels>(); // latest levels per tab, flushed in one batch
+let levelsFlushTimeout: ReturnType<typeof setTimeout> | undefined;
+
+let socket : DesktopSocket | null = null;
 let heartbeatInterval: any;
-let status: String = 'DISCONNECTED';
-let tauriTabId: number;
-let tauriVolume: number;
-let tauriIsMuted: boolean;
-let tauriInitialVolume: number;
+let status: ConnectionStatus = 'DISCONNECTED';
+// what the desktop app told us in its HELLO, null until the handshake is done and the desktop proved it knows the pairing token.
+// nothing but the handshake goes over the socket while this is null
+let desktopPeer: DesktopPeer | null = null;
+let connectionSettings: ConnectionSettings = DEFAULT_CONNECTION_SETTINGS;
+let pairingNonce = ''; // the nonce we sent in our HELLO, the desktop has to sign it
+let reconnectTimeout: ReturnType<typeof setTimeout> | undefined;
+let reconnectAttempts = 0; // keeps track of how many times we invoke connect() 
+let nextRetryAt: number | null = null;
+let manuallyDisconnected = false; // set by the popup's "Disconnect", keeps the watchdog from reconnecting
+// for the popup's diagnostics
+let lastClose: ConnectionDiagnostics['lastClose'] = null;
+let latencyMs: number | null = null;
+let pingSentAt: number | null = null; // when the PING still waiting for its PONG went out
+
+// tab updates are coalesced within this window, see scheduleTabsUpdate()
+const TABS_UPDATE_WINDOW = 50;
+let tabsUpdateTimeout: ReturnType<typeof setTimeout> | undefined;
+let tauriSeq = 0; // sequence number of the last tab message sent to the desktop app, restarts with every handshake
+// the tabs as the desktop app last saw them, after the privacy filter. deltas are computed against this
+// and levels only go out for these tabs
+let tauriKnownTabs = new Map<number, TabAudioState>();
 
 export default defineBackground(() => {
+  // before anything async: the message from the offscreen socket may be what just woke us up
+  listenForOffscreenSocketEvents();
   
+  // every tab state read and write goes through the store, it keeps them in memory and persists them in batches
+  const tabStore = createTabStateStore(tabStatesStorage);
+  // any change to any tab ends up as one coalesced update for the popup and the desktop app
+  tabStore.subscribe(scheduleTabsUpdate);
   
   async function cleanupStaleTabs() {
-    const tabStates = await getTabstates();
+    const tabStates = await tabStore.getAll();
     const allTabs = await browser.tabs.query({});
     const validTabIds = new Set(allTabs.map(t => t.id));
     
     for (const tabId in tabStates) {
       if (!validTabIds.has(Number(tabId))) {
-        await deleteTabState(Number(tabId));
+        tabStore.remove(Number(tabId));
       }
     }
+    // tabs muted while the worker wasn't running never sent us an onUpdated
+    allTabs.forEach(tab => {
+      const tabMutedBy = tabMuteSource(tab.mutedInfo);
+      if (tab.id === undefined || (tabMutedBy === null && !tabStates[tab.id])) return;
+      tabStore.update(tab.id, current => current?.tabMutedBy === tabMutedBy ? null : { tabMutedBy });
+    });
   }
   
   cleanupStaleTabs();
 
-  async function updateTabstate(tabId: number, updates: Partial<TabAudioState>) {
-    const tabStates = await getTabstates();
-    tabStates[tabId] = {
-      ...tabStates[tabId],
-      ...updates,
-      lastUpdate: Date.now(),
-    };
-    await tabStatesStorage.setValue(tabStates);
+  function tabMuteSource(mutedInfo: Browser.tabs.MutedInfo | undefined): TabMuteSource {
+    if (!mutedInfo?.muted) return null;
+    return mutedInfo.reason === 'extension' && mutedInfo.extensionId === browser.runtime.id ? 'us' : 'browser';
   }
 
-
-  
-  async function getTabstates() {
-    return await tabStatesStorage.getValue();
-  }
-  
-  
-  async function deleteTabState(tabId: number) {
-    const tabStates = await getTabstates();
-    delete tabStates[tabId];
-    await tabStatesStorage.setValue(tabStates);
-  }
-
-    // this only gets us info about the audible state and the title and the url, the other info we get from content script
-  browser.tabs.onUpdated.addListener(async (tabId, changeInfo, tab) => { // this listens to updates from tabs
+    // this only gets us info about the audible state, the tab mute and the title and the url, the other info we get from content script
+  browser.tabs.onUpdated.addListener((tabId, changeInfo, tab) => { // this listens to updates from tabs
     if (changeInfo.audible !== undefined) { // check if tab has audio
-      const tabstates = await getTabstates(); 
-      const currentState = tabstates[tabId]; // get the tab by tabId from storage, the tabId is from the listener
-      
-      // Only update isAudible, preserve content script state
-      if (currentState) { // if we already have info about this tab then update it in storage
-        await updateTabstate(tabId, { 
-          isAudible: changeInfo.audible || false,
-          tabTitle: tab.title || currentState.tabTitle,
-          tabUrl: tab.url || currentState.tabUrl,
-        });
-      } else {
-        // New tab, create initial state
-        await updateTabstate(tabId, {
-          tabId,
-          tabUrl: tab.url || '',
-          tabTitle: tab.title || '',
-          isAudible: changeInfo.audible || false,
-          hasContentAudio: false,
-          isMuted: false,
-          paused: false,
-          volume: 0,
-          lastUpdate: Date.now()
-        });
-      }
-      
-      await sendTabsToPopup();
-      console.log("senTabsToPopup() called from onUpdated.addListener");
-      await sendTabsToTauri();
+      // Only update isAudible, preserve content script state. a tab we don't know yet starts out empty
+      tabStore.update(tabId, current => ({ 
+        isAudible: changeInfo.audible || false,
+        tabTitle: tab.title || current?.tabTitle || '',
+        tabUrl: tab.url || current?.tabUrl || '',
+        incognito: tab.incognito,
+      }));
+    }
+    if (changeInfo.mutedInfo !== undefined) {
+      tabStore.update(tabId, current => ({
+        tabMutedBy: tabMuteSource(changeInfo.mutedInfo),
+        tabTitle: tab.title || current?.tabTitle || '',
+        tabUrl: tab.url || current?.tabUrl || '',
+        incognito: tab.incognito,
+      }));
     }
   });
 
@@ -117,42 +254,45 @@ export default defineBackground(() => {
   browser.runtime.onMessage.addListener((message, sender) => {
     const tabId = sender.tab?.id; // content script sends the exact tab id and its audio state 
     if (!tabId) return;
+    const frameId = sender.frameId ?? 0; // which of the tab's frames, 0 is the page itself
 
-
-    
     switch (message.type) {
       case 'AUDIO_DETECTED':
-        handleContentAudioDetected(tabId, message);
+        handleContentAudioDetected(tabId, frameId, message);
         break;
         
       case 'AUDIO_STOPPED':
-        handleContentAudioStopped(tabId, message);
+        handleContentAudioStopped(tabId, frameId, message);
         break;
       
       case 'AUDIO_PAUSED':
-        handleContentAudioPaused(tabId, message);
+        handleContentAudioPaused(tabId, frameId, message);
+        break;
+
+      case 'FRAME_UNLOADED':
+        handleFrameUnloaded(tabId, frameId);
+        break;
+
+      case 'AUDIO_LEVELS':
+        queueLevels(tabId, { tabId, peak: message.peak, rms: message.rms });
         break;
 
       case 'VOLUME_CHANGED':
-        handleContentAudioChanged(tabId, message);
+        handleContentAudioChanged(tabId, frameId, message);
         console.log("Background Script: Received state update from content script:", message);
         break;
     }
   });
 
-  browser.tabs.onRemoved.addListener(async (tabId) => {
-    await deleteTabState(tabId);
-    await sendTabsToPopup();
-    console.log("senTabsToPopup() called from onRemoved.addListener");
-    await sendTabsToTauri();
+  browser.tabs.onRemoved.addListener((tabId) => {
+    tabStore.remove(tabId);
+    policyTabStopped(tabId);
+    liftSleepMutes([tabId]); // only forgets it, the tab is gone
   });
 
   // responsible for sending audio tabs to popup 
   async function sendTabsToPopup() { 
-    const tabstates = await getTabstates();
-    const audioTabs = Object.values(tabstates).filter(
-      tab => tab.isAudible || tab.hasContentAudio || tab.paused
-    );
+    const audioTabs = await getAudioTabs();
     console.log("Background Script: Sending updated states to popup:", audioTabs);
     
     // sends to popup
@@ -164,20 +304,136 @@ export default defineBackground(() => {
     });
   }
 
+  // the tabs worth showing: anything playing, paused, audible or muted at the tab level (so it can be unmuted again)
+  async function getAudioTabs() {
+    const tabstates = await tabStore.getAll();
+    return Object.values(tabstates).filter(
+      tab => tab.isAudible || tab.hasContentAudio || tab.paused || tab.tabMutedBy !== null
+    );
+  }
+
+  // every state change ends up here instead of sending right away: bursts of events (Shorts fire volumechange,
+  // loadedmetadata and play within a few ms) collapse into a single update for the popup and the desktop app
+  function scheduleTabsUpdate() {
+    if (tabsUpdateTimeout) return; // an update is already on its way and will pick up this change too
+    tabsUpdateTimeout = setTimeout(async () => {
+      tabsUpdateTimeout = undefined;
+      await sendTabsToPopup();
+      await sendTabsToTauri();
+    }, TABS_UPDATE_WINDOW);
+  }
+
+  // PRIVACY: see utils/privacy.ts. a promise so a worker that just started doesn't send anything before it read them
+  let privacySettings = loadPrivacySettings();
+
+  async function desktopView(tab: TabAudioState | null | undefined) {
+    return tab ? desktopViewOf(await privacySettings, tab) : null;
+  }
+
+  // the audio tabs minus the blocked ones and with what the settings redact taken out, none while reporting is paused
+  async function getDesktopTabs() {
+    const settings = await privacySettings;
+    return (await getAudioTabs())
+      .map(tab => desktopViewOf(settings, tab))
+      .filter((tab): tab is TabAudioState => tab !== null);
+  }
+
+  // the desktop app can't control what it's not allowed to see
+  async function isBlockedForDesktop(tabId: number) {
+    const tab = await tabStore.get(tabId);
+    return !!tab && isTabBlocked(await privacySettings, tab);
+  }
+
+  // a blocked site's rules would give it away, the desktop app only gets the others
+  async function sendSiteRules(requestId: RequestId | null, rules?: SiteRule[]) {
+    const settings = await privacySettings;
+    const visible = (rules ?? await siteRulesStorage.getValue()).filter(rule => !isPatternBlocked(settings, rule.pattern));
+    sendToTauri({ type: 'SITE_RULES', requestId, payload: visible });
+  }
+
+  // the same goes for the policy's exemptions
+  async function sendPlaybackPolicy(requestId: RequestId | null, policy?: PlaybackPolicy) {
+    const settings = await privacySettings;
+    const current = policy ?? await loadPlaybackPolicy();
+    const exemptions = current.exemptions.filter(pattern => !isPatternBlocked(settings, pattern));
+    sendToTauri({ type: 'PLAYBACK_POLICY', requestId, payload: { ...current, exemptions } });
+  }
+
+  // blocking a site or pausing takes the tabs out of the desktop app right away, the deltas say they're gone
+  privacySettingsStorage.watch(settings => {
+    privacySettings = Promise.resolve({ ...DEFAULT_PRIVACY_SETTINGS, ...settings });
+    sendTabsToTauri();
+    sendSiteRules(null);
+    sendPlaybackPolicy(null);
+  });
+
   // responsible for sending audio tabs to tauri 
+  // desktop apps that understand deltas only get what changed since the last message, older ones get the full list
   async function sendTabsToTauri() {
-    const tabstates = await getTabstates();
-    const audioTabs = Object.values(tabstates).filter(
-      tab => tab.isAudible || tab.hasContentAudio || tab.paused
-    );
-    console.log("Background Script: Sending updated states to Tauri:", audioTabs);
+    if (!desktopPeer) return;
+    const audioTabs = await getDesktopTabs();
+
+    if (!desktopPeer.capabilities.includes('TAB_DELTAS')) {
+      tauriKnownTabs = new Map(audioTabs.map(tab => [tab.tabId, tab]));
+      sendToTauri({
+        type: 'AUDIO_TABS',
+        payload: audioTabs
+      });
+      return;
+    }
+
+    const current = new Map(audioTabs.map(tab => [tab.tabId, tab]));
+    tauriKnownTabs.forEach((_, tabId) => {
+      if (!current.has(tabId)) {
+        sendToTauri({ type: 'TAB_REMOVED', seq: ++tauriSeq, payload: { tabId } });
+      }
+    });
+    current.forEach((tab, tabId) => {
+      const known = tauriKnownTabs.get(tabId);
+      if (!known) {
+        sendToTauri({ type: 'TAB_ADDED', seq: ++tauriSeq, payload: tab });
+        return;
+      }
+      const changes = changedFields(known, tab);
+      if (changes) {
+        sendToTauri({ type: 'TAB_CHANGED', seq: ++tauriSeq, payload: { tabId, changes } });
+      }
+    });
+    tauriKnownTabs = current;
+    saveConnectionSession();
+    console.log("Background Script: Sent tab deltas to Tauri up to seq", tauriSeq);
+  }
 
-    // sends to tauri app via websocket server
+  // the full list, what the desktop app starts from and resyncs with when it notices a gap in the sequence numbers
+  async function sendTabsSnapshot() {
+    const audioTabs = await getDesktopTabs();
+    tauriKnownTabs = new Map(audioTabs.map(tab => [tab.tabId, tab]));
+    sendToTauri({ type: 'TABS_SNAPSHOT', seq: ++tauriSeq, payload: audioTabs });
+    saveConnectionSession();
+  }
+
+  // the fields that differ between two states of a tab, null when nothing but the timestamp moved
+  function changedFields(before: TabAudioState, after: TabAudioState) {
+    const changes: Partial<TabAudioState> = {};
+    let changed = false;
+    for (const key of Object.keys(after) as (keyof TabAudioState)[]) {
+      if (key !== 'lastUpdate' && JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+        (changes as Record<string, unknown>)[key] = after[key];
+        changed = true;
+      }
+    }
+    if (!changed) return null;
+    changes.lastUpdate = after.lastUpdate;
+    return changes;
+  }
+
+  // every outgoing socket message goes through here so it's typed against the protocol schema
+  // until the desktop app authenticated only the handshake itself may go out, tab data stays in the browser
+  function sendToTauri(message: OutboundMessage) {
+    const isHandshake = message.type === 'HELLO' || message.type === 'ERROR' || message.type === 'PING';
+    if (!isHandshake && !desktopPeer) return;
     if(socket?.readyState === WebSocket.OPEN) { // if we have a connection to the websocket
-        socket.send(JSON.stringify({
-          type: 'AUDIO_TABS',
-          payload: audioTabs
-        }));  
+      socket.send(encodeMessage(message));
     }
   }
   
@@ -189,159 +445,651 @@ export default defineBackground(() => {
       
       port.onDisconnect.addListener(() => {
         popupPorts = popupPorts.filter(p => p !== port);
+        if (levelPopupPorts.delete(port)) {
+          broadcastLevelsSubscription(); // a closed popup no longer needs levels
+        }
       });
       
       port.onMessage.addListener((message) => { 
         if (message.type === 'GET_AUDIO_TABS') { // this is sent from app.vue when the popup is first mounted
           sendTabsToPopup(); // send to popup app.vue
           console.log("senTabsToPopup() called from onMessage.addListener");
+        } else if (message.type === 'SUBSCRIBE_LEVELS') { // the popup's mini meters
+          levelPopupPorts.add(port);
+          broadcastLevelsSubscription();
+        } else if (message.type === 'GET_CONNECTION_STATE') { // a freshly opened popup has missed every change so far
+          port.postMessage({ type: 'CONNECTION_STATE', state: getConnectionDiagnostics() });
+          if (status === 'CONNECTED') sendPing(); // fresh latency for the panel, the answer updates it
+        } else if (message.type === 'RECONNECT') {
+          resumed.then(() => {
+            reconnectAttempts = 0;
+            connect();
+          });
+        } else if (message.type === 'DISCONNECT') {
+          resumed.then(disconnect); // a resume still in flight would otherwise connect again right after
+        } else if (message.type === 'SET_TAB_MUTE') { // the popup's tab mute button, goes through here for the fallback
+          muteTab(message.tabId, message.isMuted);
         }
       });
     }
   });
 
-  async function handleContentAudioDetected(tabId: number, message: any) {
-    const tabstates = await getTabstates();
-    const existingState = tabstates[tabId];
-    
-    const baseState = existingState || { 
+  function isLevelsWanted() {
+    return desktopWantsLevels || levelPopupPorts.size > 0;
+  }
+
+  // tells the content scripts whether to run their meters, they only actually measure while their tab plays
+  async function broadcastLevelsSubscription() {
+    const tabstates = await tabStore.getAll();
+    for (const tabId in tabstates) {
+      sendLevelsSubscription(Number(tabId));
+    }
+  }
+
+  function sendLevelsSubscription(tabId: number) {
+    browser.tabs.sendMessage(tabId, { type: 'LEVELS_SUBSCRIPTION', enabled: isLevelsWanted() }).catch(() => {
+      // tabs without a content script have nothing to meter
+    });
+  }
+
+  // levels arrive from every playing tab every ~100ms, batch them so the socket gets one LEVELS message per interval
+  function queueLevels(tabId: number, levels: AudioLevels) {
+    if (!isLevelsWanted()) return;
+    // every frame with media meters on its own, the tab shows the loudest of them
+    const pending = pendingLevels.get(tabId);
+    pendingLevels.set(tabId, pending ? {
       tabId,
-      tabUrl: '',
-      tabTitle: '',
-      isAudible: false,
-      hasContentAudio: false,
-      isMuted: false,
-      paused: false,
-      volume: 0,
-      lastUpdate: Date.now(),
+      peak: Math.max(pending.peak, levels.peak),
+      rms: Math.max(pending.rms, levels.rms),
+    } : levels);
+    if (levelsFlushTimeout) return;
+    levelsFlushTimeout = setTimeout(() => {
+      levelsFlushTimeout = undefined;
+      const batch = [...pendingLevels.values()];
+      pendingLevels.clear();
+      if (desktopWantsLevels) {
+        sendToTauri({ type: 'LEVELS', payload: batch.filter(levels => tauriKnownTabs.has(levels.tabId)) });
+      }
+      levelPopupPorts.forEach(port => {
+        port.postMessage({ type: 'AUDIO_LEVELS', levels: batch });
+      });
+    }, 100);
+  }
+
+  // the fields every content script report carries
+  function frameReportChanges(message: any, current: FrameAudioState | undefined): Partial<FrameAudioState> {
+    return {
+      isMuted: message.isMuted ?? current?.isMuted ?? false,
+      volume: message.volume ?? current?.volume ?? 0,
+      effects: message.effects ?? current?.effects ?? FLAT_EFFECTS,
+      normalization: message.normalization ?? current?.normalization ?? INACTIVE_NORMALIZATION,
+      ...message.media, // now-playing info and position
+      streams: message.streams ?? current?.streams ?? [],
+      frameUrl: message.tabUrl || current?.frameUrl || '',
     };
-    
-    await updateTabstate(tabId, {
-      ...baseState,
-      hasContentAudio: true,
-      paused: false,
-      tabUrl: message.tabUrl || baseState.tabUrl,
-      tabTitle: message.tabTitle || baseState.tabTitle,
-      isMuted: message.isMuted ?? baseState.isMuted,
-      volume: message.volume ?? baseState.volume,
+  }
+
+  // whether a tab was playing before this report, the policy reacts to the transitions
+  function isPlaying(tab: TabAudioState | undefined) {
+    return !!tab?.hasContentAudio && !tab.paused;
+  }
+
+  // applies one frame's report and derives the tab's fields from all of its frames again.
+  // knownFramesOnly drops reports from frames we never saw playing, like the tab-level reports did before frames
+  async function applyFrameReport(
+    tabId: number,
+    frameId: number,
+    message: any,
+    changes: Partial<FrameAudioState>,
+    knownFramesOnly: boolean,
+  ) {
+    let before: TabAudioState | undefined;
+    let frameBefore: FrameAudioState | undefined;
+    const after = await tabStore.update(tabId, current => {
+      before = current;
+      frameBefore = current?.frames.find(frame => frame.frameId === frameId);
+      if (knownFramesOnly && !frameBefore) return null;
+      const frames = upsertFrame(current?.frames ?? [], frameId, { ...frameReportChanges(message, frameBefore), ...changes });
+      return {
+        ...aggregateFrames(frames),
+        frames,
+        incognito: message.incognito ?? current?.incognito ?? false,
+        // the top frame's url and title are the tab's, an embedded player's aren't
+        ...(frameId === 0 && {
+          tabUrl: message.tabUrl || current?.tabUrl || '',
+          tabTitle: message.tabTitle || current?.tabTitle || '',
+        }),
+      };
     });
-    
-    await sendTabsToPopup();
-    console.log("senTabsToPopup() called from handleContentAudioDetected");
-    await sendTabsToTauri();
+    reactToPlayingChange(tabId, before, after);
+    return { frameBefore };
   }
 
-  async function handleContentAudioStopped(tabId: number, message: any) {
-    const tabstates = await getTabstates();
-    const existingState = tabstates[tabId];
-    
-    if (existingState) {
-      await updateTabstate(tabId, {
-        hasContentAudio: false,
-        paused: false,
-        // Keep muted/volume state from message
-        isMuted: message.isMuted ?? existingState.isMuted,
-        volume: message.volume ?? existingState.volume,
-      });
-      
-      await sendTabsToPopup();
-      console.log("senTabsToPopup() called from handleContentAudioStopped");
-      await sendTabsToTauri();
+  function reactToPlayingChange(tabId: number, before: TabAudioState | undefined, after: TabAudioState | undefined) {
+    if (!isPlaying(before) && isPlaying(after)) {
+      policyTabStarted(tabId);
+      liftSleepMutes([tabId]);
     }
+    if (isPlaying(before) && !isPlaying(after)) policyTabStopped(tabId);
   }
 
-  async function handleContentAudioPaused(tabId: number, message: any) {
-    const tabstates = await getTabstates();
-    const existingState = tabstates[tabId];
-    
-    if (existingState) {
-      await updateTabstate(tabId, {
-        hasContentAudio: true,
-        paused: true,
-        // Update muted/volume from the pause event
-        isMuted: message.isMuted ?? existingState.isMuted,
-        volume: message.volume ?? existingState.volume, 
-      });
-      
-      await sendTabsToPopup();
-      console.log("senTabsToPopup() called from handleContentAudioPaused");
-      await sendTabsToTauri();
+  async function handleContentAudioDetected(tabId: number, frameId: number, message: any) {
+    const { frameBefore } = await applyFrameReport(tabId, frameId, message, { hasContentAudio: true, paused: false }, false);
+    if (isLevelsWanted() && !frameBefore?.hasContentAudio) {
+      sendLevelsSubscription(tabId); // a frame that just started playing may have missed the broadcast
     }
   }
 
-  async function handleContentAudioChanged(tabId: number, message: any) {
-    const tabstates = await getTabstates();
-    const existingState = tabstates[tabId];
-    
-    if (existingState) {
-      await updateTabstate(tabId, {
-        isMuted: message.isMuted ?? existingState.isMuted,
-        volume: message.volume ?? existingState.volume,
+  function handleContentAudioStopped(tabId: number, frameId: number, message: any) {
+    // Keep muted/volume state from message
+    applyFrameReport(tabId, frameId, message, { hasContentAudio: false, paused: false }, true);
+  }
+
+  function handleContentAudioPaused(tabId: number, frameId: number, message: any) {
+    // Update muted/volume from the pause event
+    applyFrameReport(tabId, frameId, message, { hasContentAudio: true, paused: true }, true);
+  }
+
+  function handleContentAudioChanged(tabId: number, frameId: number, message: any) {
+    applyFrameReport(tabId, frameId, message, {}, true);
+  }
+
+  // the frame navigated away or was removed, what it reported must not keep the tab "playing"
+  async function handleFrameUnloaded(tabId: number, frameId: number) {
+    let before: TabAudioState | undefined;
+    const after = await tabStore.update(tabId, current => {
+      before = current;
+      if (!current?.frames.some(frame => frame.frameId === frameId)) return null;
+      const frames = removeFrame(current.frames, frameId);
+      return { ...aggregateFrames(frames), frames };
+    });
+    reactToPlayingChange(tabId, before, after);
+  }
+
+  // keyboard shortcuts send the same content script messages as the popup's controls, so the content script's
+  // report afterwards updates the popup and the desktop app like any other change
+  browser.commands.onCommand.addListener((command, tab) => {
+    if (isShortcutCommand(command)) {
+      handleShortcut(command, tab?.id);
+    }
+  });
+
+  async function handleShortcut(command: ShortcutCommand, activeTabId?: number) {
+    const tabId = activeTabId ?? (await browser.tabs.query({ active: true, currentWindow: true }))[0]?.id;
+    const tabstates = await tabStore.getAll();
+    const active = tabId !== undefined ? tabstates[tabId] : undefined;
+    // the tabs that currently have media, only those have a content script that can do something
+    const mediaTabs = Object.values(tabstates).filter(tab => tab.hasContentAudio);
+
+    switch (command) {
+      case 'toggle-mute': {
+        if (tabId === undefined) return;
+        // a tab without media still gets muted, through the browser's tab mute
+        const isMuted = active ? isTabMuted(active) : (await browser.tabs.get(tabId)).mutedInfo?.muted ?? false;
+        await rememberForUndo(command, { [tabId]: { isMuted } });
+        muteTab(tabId, !isMuted);
+        break;
+      }
+
+      case 'volume-up':
+      case 'volume-down': {
+        if (!active) return;
+        const { volumeStep } = await shortcutSettingsStorage.getValue();
+        const volume = clampVolume(active.volume + (command === 'volume-up' ? volumeStep : -volumeStep));
+        await rememberForUndo(command, { [active.tabId]: { volume: active.volume } });
+        sendToContentScript(active.tabId, { type: 'UI_VOLUME_CHANGE', volume });
+        break;
+      }
+
+      case 'mute-others': {
+        const others = mediaTabs.filter(tab => tab.tabId !== tabId && !tab.isMuted);
+        await rememberForUndo(command, Object.fromEntries(others.map(tab => [tab.tabId, { isMuted: false }])));
+        others.forEach(tab => muteTab(tab.tabId, true));
+        break;
+      }
+
+      case 'pause-all': {
+        const playing = mediaTabs.filter(tab => !tab.paused);
+        await rememberForUndo(command, Object.fromEntries(playing.map(tab => [tab.tabId, { paused: false }])));
+        playing.forEach(tab => sendToContentScript(tab.tabId, { type: 'MEDIA_PLAYBACK', action: 'pause' }));
+        break;
+      }
+
+      case 'restore-previous': {
+        const undo = await shortcutUndoStorage.getValue();
+        if (!undo) return;
+        await shortcutUndoStorage.setValue(null); // one level of undo, pressing it again does nothing
+        for (const [id, previous] of Object.entries(undo.tabs)) {
+          const undoTabId = Number(id);
+          if (previous.volume !== undefined) {
+            sendToContentScript(undoTabId, { type: 'UI_VOLUME_CHANGE', volume: previous.volume });
+          }
+          if (previous.isMuted !== undefined) {
+            muteTab(undoTabId, previous.isMuted);
+          }
+          if (previous.paused === false) {
+            sendToContentScript(undoTabId, { type: 'MEDIA_PLAYBACK', action: 'play' });
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  async function rememberForUndo(command: ShortcutCommand, tabs: ShortcutUndo['tabs']) {
+    const previous = await shortcutUndoStorage.getValue();
+    // holding volume up is many steps, undoing it should go back to where the first one started
+    const isVolumeStep = (c: ShortcutCommand) => c === 'volume-up' || c === 'volume-down';
+    const sameTabs = previous && Object.keys(previous.tabs).join() === Object.keys(tabs).join();
+    if (previous && isVolumeStep(previous.command) && isVolumeStep(command) && sameTabs) return;
+    await shortcutUndoStorage.setValue({ command, tabs });
+  }
+
+  // MUTE FALLBACK: plugins, cross-origin frames we can't run in and DRM players leave the content script nothing
+  // to mute, the browser's own tab mute still works for those
+  async function muteTab(tabId: number, isMuted: boolean) {
+    const results = await sendToFrames(tabId, { type: 'UI_MUTE_SET', isMuted, rampMs: MUTE_RAMP_MS });
+    await applyTabMuteFallback(tabId, isMuted, results);
+  }
+
+  // mutes the tab when none of its frames muted anything, and lifts the tab mute on unmute whoever set it,
+  // the user asked for sound. resolves with true when the tab mute was changed
+  async function applyTabMuteFallback(tabId: number, isMuted: boolean, results: (TabCommandResult | null | undefined)[]) {
+    const tab = await tabStore.get(tabId);
+    const applied = results.some(result => !!result && result.affected > 0);
+    const needed = isMuted ? !applied && !tab?.tabMutedBy : !!tab?.tabMutedBy;
+    if (!needed) return false;
+    try {
+      const updated = await browser.tabs.update(tabId, { muted: isMuted });
+      // onUpdated reports it as well, but the ACK going out next should already show it
+      await tabStore.update(tabId, () => ({ tabMutedBy: tabMuteSource(updated?.mutedInfo) }));
+      return true;
+    } catch (err) {
+      console.error(`Failed to ${isMuted ? 'mute' : 'unmute'} tab ${tabId}:`, err);
+      return false;
+    }
+  }
+
+  // sends a command to the frames it concerns: the one owning the stream, else every frame with media.
+  // per frame: the content script's answer, null when it didn't answer, undefined when there's no content script
+  async function sendToFrames(tabId: number, message: Record<string, unknown> & { type: string }, streamId?: string) {
+    const frameIds = commandFrameIds(await tabStore.get(tabId), streamId);
+    return Promise.all(frameIds.map(frameId =>
+      browser.tabs.sendMessage(tabId, message, { frameId }).then(
+        (result: TabCommandResult | undefined) => result ?? null,
+        err => {
+          console.error(`Failed to send ${message.type} to content script for tab ${tabId} frame ${frameId}:`, err);
+          return undefined;
+        },
+      )
+    ));
+  }
+
+  function sendToContentScript(tabId: number, message: object) {
+    browser.tabs.sendMessage(tabId, message).catch(err => {
+      console.error(`Failed to reach the content script of tab ${tabId}:`, err);
+    });
+  }
+
+  // PLAYBACK POLICY: pause, duck or mute the other tabs when one starts playing, see utils/playback-policy.ts.
+  // everything goes through one queue, the reports of the tabs we pause or duck arrive while we're still at it.
+  // its volume and mute commands are transient: they're undone later, so sites don't save them as their own volume
+  let policyQueue: Promise<unknown> = Promise.all([
+    playbackPolicyStorage.getValue(),
+    policyStateStorage.getValue(),
+  ]).then(([savedPolicy, savedState]) => {
+    policy = { ...DEFAULT_PLAYBACK_POLICY, ...savedPolicy };
+    policyState = savedState;
+  });
+  let policy: PlaybackPolicy = DEFAULT_PLAYBACK_POLICY;
+  let policyState: PolicyState = EMPTY_POLICY_STATE;
+  // tabs we just resumed, their AUDIO_DETECTED must not make them the new foreground and pause each other
+  const policyResumed = new Set<number>();
+
+  function runPolicy(task: (tabstates: Record<number, TabAudioState>) => void) {
+    policyQueue = policyQueue
+      .then(async () => {
+        task(await tabStore.getAll());
+        await policyStateStorage.setValue(policyState);
+      })
+      .catch(err => console.error('Playback policy failed:', err));
+  }
+
+  function isExempt(tab: TabAudioState | undefined) {
+    return !tab || isPolicyExempt(policy, tab.tabUrl);
+  }
+
+  function policyTabStarted(tabId: number) {
+    runPolicy(tabstates => {
+      if (policyResumed.delete(tabId)) return;
+      const others = Object.values(tabstates).filter(tab => tab.tabId !== tabId && isPlaying(tab) && !isExempt(tab));
+
+      switch (policy.mode) {
+        case 'pause-others':
+          policyState.foregroundTabId = tabId;
+          // a tab we paused that the user started again is the foreground now, not something to resume later
+          policyState.paused = policyState.paused.filter(pausedTabId => pausedTabId !== tabId);
+          others.forEach(tab => {
+            sendToContentScript(tab.tabId, { type: 'MEDIA_PLAYBACK', action: 'pause' });
+            if (!policyState.paused.includes(tab.tabId)) policyState.paused.push(tab.tabId);
+          });
+          break;
+
+        case 'duck-others': {
+          policyState.foregroundTabId = tabId;
+          // the tab that starts now may have been ducked for an earlier one, it's the foreground now
+          restoreDucked(tabstates, [tabId]);
+          others.filter(tab => !(tab.tabId in policyState.ducked)).forEach(tab => {
+            const ducked = tab.volume * policy.duckLevel;
+            policyState.ducked[tab.tabId] = { original: tab.volume, ducked };
+            sendToContentScript(tab.tabId, { type: 'UI_VOLUME_CHANGE', volume: ducked, transient: true });
+          });
+          break;
+        }
+
+        case 'focused-only':
+          applyFocusedOnlyNow(); // a tab that starts in the background gets muted right away
+          break;
+      }
+    });
+  }
+
+  function policyTabStopped(tabId: number) {
+    runPolicy(tabstates => {
+      if (tabId !== policyState.foregroundTabId) return;
+      releaseForeground(tabstates);
+    });
+  }
+
+  // the foreground tab stopped: everything it paused resumes, everything it ducked goes back up
+  function releaseForeground(tabstates: Record<number, TabAudioState>) {
+    policyState.paused.forEach(pausedTabId => {
+      if (!tabstates[pausedTabId]) return; // closed in the meantime
+      policyResumed.add(pausedTabId);
+      sendToContentScript(pausedTabId, { type: 'MEDIA_PLAYBACK', action: 'play' });
+    });
+    restoreDucked(tabstates, Object.keys(policyState.ducked).map(Number));
+    policyState = { ...policyState, foregroundTabId: null, paused: [], ducked: {} };
+  }
+
+  function restoreDucked(tabstates: Record<number, TabAudioState>, tabIds: number[]) {
+    tabIds.forEach(tabId => {
+      const entry = policyState.ducked[tabId];
+      if (!entry) return;
+      delete policyState.ducked[tabId];
+      const tab = tabstates[tabId];
+      // a tab the user turned up or down while it was ducked keeps what the user chose
+      if (tab && Math.abs(tab.volume - entry.ducked) < 0.01) {
+        sendToContentScript(tabId, { type: 'UI_VOLUME_CHANGE', volume: entry.original, transient: true });
+      }
+    });
+  }
+
+  // mutes every playing tab but the focused one and unmutes the focused one if we muted it
+  async function applyFocusedOnlyNow() {
+    const [focused] = await browser.tabs.query({ active: true, lastFocusedWindow: true });
+    runPolicy(tabstates => applyFocusedOnly(tabstates, focused?.id));
+  }
+
+  function applyFocusedOnly(tabstates: Record<number, TabAudioState>, focusedTabId: number | undefined) {
+    if (policy.mode !== 'focused-only' || focusedTabId === undefined) return;
+    if (policyState.muted.includes(focusedTabId)) {
+      sendToContentScript(focusedTabId, { type: 'UI_MUTE_SET', isMuted: false, transient: true });
+      policyState.muted = policyState.muted.filter(tabId => tabId !== focusedTabId);
+    }
+    Object.values(tabstates)
+      .filter(tab => tab.tabId !== focusedTabId && isPlaying(tab) && !tab.isMuted && !isExempt(tab))
+      .forEach(tab => {
+        sendToContentScript(tab.tabId, { type: 'UI_MUTE_SET', isMuted: true, transient: true });
+        policyState.muted.push(tab.tabId);
       });
-      
-      await sendTabsToPopup();
-      console.log("senTabsToPopup() called from handleContentAudioChanged");
-      await sendTabsToTauri();
+  }
+
+  browser.tabs.onActivated.addListener(() => {
+    applyFocusedOnlyNow();
+    liftSleepMutes();
+  });
+
+  browser.windows.onFocusChanged.addListener(windowId => {
+    if (windowId === browser.windows.WINDOW_ID_NONE) return; // another app got focus, the browser's tabs keep theirs
+    applyFocusedOnlyNow();
+    liftSleepMutes();
+  });
+
+  // switching modes undoes whatever the old mode did before the new one starts
+  function setPlaybackPolicy(newPolicy: PlaybackPolicy) {
+    runPolicy(tabstates => {
+      releaseForeground(tabstates);
+      policyState.muted.forEach(tabId => {
+        if (tabstates[tabId]) sendToContentScript(tabId, { type: 'UI_MUTE_SET', isMuted: false, transient: true });
+      });
+      policyState.muted = [];
+      policy = newPolicy;
+    });
+    if (newPolicy.mode === 'focused-only') applyFocusedOnlyNow();
+  }
+
+  async function loadPlaybackPolicy(): Promise<PlaybackPolicy> {
+    return { ...DEFAULT_PLAYBACK_POLICY, ...await playbackPolicyStorage.getValue() };
+  }
+
+  // the popup and the desktop app both write the storage, this applies it and keeps the desktop app's view current
+  playbackPolicyStorage.watch(newPolicy => {
+    const updated = { ...DEFAULT_PLAYBACK_POLICY, ...newPolicy };
+    setPlaybackPolicy(updated);
+    sendPlaybackPolicy(null, updated);
+  });
+
+  // same as the policy: whoever changed the settings, the desktop app hears about it. the content scripts watch it themselves
+  normalizationSettingsStorage.watch(async () => {
+    sendToTauri({ type: 'NORMALIZATION', requestId: null, payload: await loadNormalizationSettings() });
+  });
+
+  // SLEEP TIMER: the storage is the timer, the alarm only wakes us up when it's due. the popup writes the storage
+  // directly, so whatever changed it, the alarm and the desktop app follow from here
+  sleepTimerStorage.watch(timer => {
+    syncSleepTimerAlarm(timer);
+    sendSleepTimer(timer, null);
+    if (timer) liftSleepMutes(); // someone set a new timer, so they're awake
+  });
+
+  function syncSleepTimerAlarm(timer: SleepTimer | null) {
+    if (timer) {
+      browser.alarms.create(SLEEP_TIMER_ALARM, { when: timer.endsAt });
+    } else {
+      browser.alarms.clear(SLEEP_TIMER_ALARM);
     }
   }
 
+  function sendSleepTimer(timer: SleepTimer | null, requestId: RequestId | null) {
+    sendToTauri({
+      type: 'SLEEP_TIMER',
+      requestId,
+      payload: timer && { endsAt: timer.endsAt, fadeSeconds: timer.fadeSeconds, remainingSeconds: remainingSeconds(timer) },
+    });
+  }
+
+  // fades out and pauses every tab that plays something. tabs whose content script has nothing to fade (plugins,
+  // DRM players, frames we can't run in) can only be muted, they get the tab mute right away and are remembered
+  // so the mute doesn't outlast the night, see liftSleepMutes()
+  async function runSleepTimer() {
+    const timer = await sleepTimerStorage.getValue();
+    if (!timer) return;
+    await cancelSleepTimer();
+    const audible = await browser.tabs.query({ audible: true });
+    const playing = Object.values(await tabStore.getAll()).filter(isPlaying).map(tab => tab.tabId);
+    const tabIds = new Set([...playing, ...audible.flatMap(tab => (tab.id === undefined ? [] : [tab.id]))]);
+    const muted = await Promise.all([...tabIds].map(async tabId => {
+      const results = await sendToFrames(tabId, { type: 'SLEEP_FADE_OUT', seconds: timer.fadeSeconds });
+      return await applyTabMuteFallback(tabId, true, results) ? [tabId] : [];
+    }));
+    const recorded = await sleepMutedTabsStorage.getValue();
+    await sleepMutedTabsStorage.setValue([...new Set([...recorded, ...muted.flat()])]);
+  }
+
+  // the user is back: switching tabs or windows, setting a new timer or a muted tab playing again unmutes what the
+  // timer tab-muted. only a mute that is still ours is lifted, the user may have muted the tab themselves since
+  async function liftSleepMutes(tabIds?: number[]) {
+    const recorded = await sleepMutedTabsStorage.getValue();
+    const lifted = recorded.filter(tabId => !tabIds || tabIds.includes(tabId));
+    if (lifted.length === 0) return;
+    await sleepMutedTabsStorage.setValue(recorded.filter(tabId => !lifted.includes(tabId)));
+    await Promise.all(lifted.map(async tabId => {
+      if ((await tabStore.get(tabId))?.tabMutedBy === 'us') {
+        await applyTabMuteFallback(tabId, false, []);
+      }
+    }));
+  }
+
   // connecting to a websocket server:
-  // A one time send to notify the popup of the status of the connection to the server. this is different from 'port.sendMessage' that establishes a Long-lived Connection to the popup
-  const updateStatus = (newStatus: String) => {
+  const updateStatus = (newStatus: ConnectionStatus) => {
     status = newStatus;
-    // Notify the Vue UI whenever the status changes
-    browser.runtime.sendMessage({type: 'SERVER_STATUS', status}); // we use browser.runtime cause we want to send to popup only 
+    connectionStateChanged();
   };
 
-  let reconnectAttempts = 0; // keeps track of how many times we invoke connect() 
+  function getConnectionDiagnostics(): ConnectionDiagnostics {
+    return {
+      status,
+      endpoint: endpointUrl(connectionSettings),
+      socketHost: connectionSettings.socketHost,
+      reconnectAttempts,
+      nextRetryAt,
+      lastClose,
+      latencyMs,
+      manuallyDisconnected,
+    };
+  }
 
-  // connecting to the sound-control-panel tauri app wesocket server in 'ws://127.0.0.1:8080'
+  function saveConnectionSession() {
+    connectionSessionStorage.setValue({
+      socketId: socket?.id ?? null,
+      desktopPeer,
+      pairingNonce,
+      tauriSeq,
+      reconnectAttempts,
+      nextRetryAt,
+      lastClose,
+      manuallyDisconnected,
+      desktopWantsLevels,
+    });
+  }
+
+  // Notify the Vue UI whenever anything about the connection changes, over the ports of the open popups
+  function sendConnectionStateToPopup() {
+    const diagnostics = getConnectionDiagnostics();
+    popupPorts.forEach(port => {
+      port.postMessage({ type: 'CONNECTION_STATE', state: diagnostics });
+    });
+  }
+
+  function connectionStateChanged() {
+    saveConnectionSession();
+    sendConnectionStateToPopup();
+  }
+
+  // the PONG that answers it gives us the round trip, see handleTauriMessage()
+  function sendPing() {
+    if (pingSentAt === null) pingSentAt = Date.now(); // an unanswered PING keeps its time, so a lost PONG doesn't go unnoticed
+    sendToTauri({
+      type: 'PING', 
+      payload: 'ping',
+    }); // send a ping message 
+  }
+
+  // the browser will kill this connection after 30 seconds
+  // we need to send a ping message to the server every 20 seconds to reset the 30 seconds timer everytime so the connection can persist 
+  function startHeartbeat() {
+    clearInterval(heartbeatInterval); // clears the previous interval
+    heartbeatInterval = setInterval(sendPing, 20000); // after 20 seconds rerun this interval to send ping again 
+  }
+
+  function scheduleReconnect() {
+    reconnectAttempts++; // increments every time onclose is fired for not clean disconnect
+    const delay = Math.min(1000 * 2 ** reconnectAttempts, 30000); // 1s -> 2s -> 4s -> ... capped at 30s 
+    nextRetryAt = Date.now() + delay;
+    reconnectTimeout = setTimeout(() => connect(), delay); // Delay reconnection to avoid CPU spikes
+  }
+
+  // closes the current socket without its onclose kicking off a reconnect
+  function dropSocket(code?: number, reason?: string) {
+    if (!socket) return;
+    // This "cuts the wires" so the old socket can't trigger 
+    // a new connect() when it finally finishes closing.
+    socket.onopen = null;
+    socket.onclose = null;
+    socket.onerror = null;
+    socket.onmessage = null;
+    socket.close(code, reason);
+    socket = null;
+    clearInterval(heartbeatInterval);
+    desktopPeer = null;
+    pingSentAt = null;
+    latencyMs = null;
+  }
+
+  // connecting to the sound-control-panel tauri app wesocket server, 'ws://127.0.0.1:8080' unless changed on the options page
   const connect = () => {
-    if (socket) { // check if we have some previous connection and close it before starting a new one
-      // This "cuts the wires" so the old socket can't trigger 
-      // a new connect() when it finally finishes closing.
-      socket.onopen = null;
-      socket.onclose = null;
-      socket.onerror = null;
-      socket.onmessage = null;
-      socket.close();
-      updateStatus('DISCONNECTED');
-    }
-    socket = new WebSocket('ws://127.0.0.1:8080');
+    clearTimeout(reconnectTimeout); // a pending retry would otherwise replace the socket we're about to open
+    nextRetryAt = null;
+    manuallyDisconnected = false;
+    dropSocket(); // check if we have some previous connection and close it before starting a new one
+    socket = openDesktopSocket(endpointUrl(connectionSettings), connectionSettings.socketHost);
+    wireSocket(socket);
+    updateStatus('CONNECTING');
+  }
+
+  // the popup's "Disconnect": stays disconnected, the watchdog included, until "Reconnect now" or new settings
+  function disconnect() {
+    clearTimeout(reconnectTimeout);
+    nextRetryAt = null;
+    reconnectAttempts = 0;
+    dropSocket(1000, 'Disconnected from the popup');
+    manuallyDisconnected = true;
+    lastClose = { code: 1000, reason: 'Disconnected from the popup', at: Date.now() };
+    updateStatus('DISCONNECTED');
+  }
 
-    // the browser will kill this connection after 30 seconds
-    // we need to send a ping message to the server every 20 seconds to reset the 30 seconds timer everytime so the connection can persist 
+  function wireSocket(socket: DesktopSocket) {
     socket.onopen = async () => {
       updateStatus('CONNECTED');
-      await sendTabsToTauri(); // send tabs to tauri when first connected
+      // handshake: tell the desktop which protocol version and features we speak, it answers with its own HELLO.
+      // our proof needs the desktop's nonce, it goes out in AUTH once that HELLO arrived
+      pairingNonce = createNonce();
+      sendToTauri({
+        type: 'HELLO',
+        payload: {
+          protocolVersion: PROTOCOL_VERSION,
+          capabilities: EXTENSION_CAPABILITIES,
+          client: 'browser-extension',
+          nonce: pairingNonce,
+        },
+      });
+      // the tabs go out once the desktop app's HELLO checked out, see handleTauriMessage()
       reconnectAttempts = 0; // reset on new connection
-      clearInterval(heartbeatInterval); // clears the previous interval
-      heartbeatInterval = setInterval(() => {
-        if(socket?.readyState === WebSocket.OPEN) { // if we have a connection to the websocket
-          socket.send(JSON.stringify({
-            type: 'PING', 
-            payload: 'ping',
-          })); // send a ping message 
-        }
-      }, 20000); // after 20 seconds rerun this interval to send ping again 
-
+      startHeartbeat();
     }
     
     socket.onclose = (event) => {
       clearInterval(heartbeatInterval);
+      lastClose = { code: event.code, reason: event.reason, at: Date.now() };
+      pingSentAt = null;
+      latencyMs = null;
+      if (desktopWantsLevels) {
+        desktopWantsLevels = false; // a new connection has to subscribe again
+        broadcastLevelsSubscription();
+      }
+      desktopPeer = null;
       if(event.code === 1000 || event.code === 1001) {
-        updateStatus('DISCONNECTED');
         reconnectAttempts = 0; // reset on clean exit
+        updateStatus('DISCONNECTED'); // the watchdog keeps looking for the desktop app coming back
         console.log('Clean closure from Tauri.');
       }else { // reconnect on any other exit reason
+        scheduleReconnect();
         updateStatus('RECONNECTING');
-        reconnectAttempts++; // increments every time onclose is fired for not clean disconnect
-        const delay = Math.min(1000 * 2 ** reconnectAttempts, 30000); // 1s -> 2s -> 4s -> ... capped at 30s 
-        setTimeout(() => connect(), delay); // Delay reconnection to avoid CPU spikes
       }
     }
 
-    socket.onerror = (err) => {
+    socket.onerror = () => {
       console.error('WebSocket error detected');
     }
 
@@ -349,40 +1097,385 @@ export default defineBackground(() => {
     // the idea is to controll the volume slider directly in app.vue from tauri slider by sending to app.vue the tauri slider state every time it moves
     // we get volume values from tauri slider or a mute value and send it to popup and there we control the slider in app.vue with the slider from tauri app
     socket.onmessage = (event) => {
-      // parse the data to json
-      const data = JSON.parse(event.data); // the data from tauri will be an object of either setVolume or setMute with a tabId and volume float or mute boolean
-      // handle data coming from rust
-      if (data.setVolume) {
-        tauriTabId = data.setVolume.tabId;
-        tauriVolume = data.setVolume.volume;
-        browser.tabs.sendMessage(tauriTabId, { // send to content script
+      // validate before touching anything, a bad message gets an ERROR reply instead of throwing inside the handler
+      const result = parseInboundMessage(event.data);
+      if (!result.ok) {
+        console.error('Rejected message from Tauri:', result.error);
+        sendToTauri({ type: 'ERROR', payload: result.error });
+        return;
+      }
+      handleTauriMessage(result.message);
+    }
+  
+  }
+
+  // the desktop app's HELLO has to carry its signature of our nonce, made with the pairing token
+  async function isDesktopProofValid(proof: string | undefined) {
+    const { pairingToken } = connectionSettings;
+    if (!pairingToken || !proof) return false;
+    return proofsEqual(proof, await signWithToken(pairingToken, desktopProofMessage(pairingNonce)));
+  }
+
+  // handle validated data coming from rust
+  async function handleTauriMessage(message: InboundMessage) {
+    // only the handshake and its replies are allowed before the desktop app proved who it is
+    const isHandshake = message.type === 'HELLO' || message.type === 'ERROR' || message.type === 'PONG';
+    if (!isHandshake && !desktopPeer) {
+      sendToTauri({
+        type: 'ERROR',
+        payload: { code: 'UNAUTHENTICATED', message: `${message.type} refused, pair the desktop app on the extension's options page first` },
+      });
+      return;
+    }
+
+    switch (message.type) {
+      case 'HELLO': {
+        const protocolVersion = negotiateProtocolVersion(message.payload.protocolVersion);
+        if (protocolVersion === null) {
+          sendToTauri({
+            type: 'ERROR',
+            payload: {
+              code: 'UNSUPPORTED_VERSION',
+              message: `Protocol version ${message.payload.protocolVersion} is not supported, expected ${PROTOCOL_VERSION}`,
+            },
+          });
+          return;
+        }
+        const desktopNonce = message.payload.nonce;
+        if (!desktopNonce || !await isDesktopProofValid(message.payload.proof)) {
+          updateStatus('UNAUTHENTICATED');
+          sendToTauri({
+            type: 'ERROR',
+            payload: { code: 'UNAUTHENTICATED', message: 'Pairing nonce or proof missing or wrong, check the pairing token' },
+          });
+          return;
+        }
+        sendToTauri({
+          type: 'AUTH',
+          payload: { proof: await signWithToken(connectionSettings.pairingToken, extensionProofMessage(desktopNonce, pairingNonce)) },
+        });
+        desktopPeer = { protocolVersion, capabilities: message.payload.capabilities };
+        saveConnectionSession();
+        console.log('Handshake with Tauri done:', desktopPeer);
+        // now that we know who's listening, send the tabs
+        tauriSeq = 0;
+        if (desktopPeer.capabilities.includes('TAB_DELTAS')) {
+          await sendTabsSnapshot();
+        } else {
+          await sendTabsToTauri();
+        }
+        // a timer set from the popup before the desktop app connected should show up there too
+        if (desktopPeer.capabilities.includes('SLEEP_TIMER')) {
+          sendSleepTimer(await sleepTimerStorage.getValue(), null);
+        }
+        break;
+      }
+
+      case 'GET_SNAPSHOT':
+        await sendTabsSnapshot();
+        break;
+
+
+      case 'SET_VOLUME':
+        relayTauriCommand(message, { // send to content script
           type: 'TAURI_VOLUME_CHANGED', 
-          volume: tauriVolume
-        }).catch(err => {
-            console.error(`Failed to send volume command to content script for tab ${tauriTabId}:`, err);
-          }); 
-        
-      }else if (data.setMute) {
-        console.log(data);
-        tauriTabId = data.setMute.tabId;
-        tauriIsMuted = data.setMute.isMuted;
-        tauriInitialVolume = data.setMute.initialVolume;
-        browser.tabs.sendMessage(tauriTabId, {
+          volume: message.payload.volume,
+          streamId: message.payload.streamId,
+          rampMs: message.payload.rampMs,
+        });
+        break;
+
+      case 'SET_MUTE':
+        relayTauriCommand(message, {
           type: 'TAURI_MUTE_CHANGED',
-          isMuted: tauriIsMuted,
-          initialVolume: tauriInitialVolume,
-        }).catch(err => {
-          console.error(`Failed to send mute command to content script for tab ${tauriTabId}:`, err);
+          isMuted: message.payload.isMuted,
+          initialVolume: message.payload.initialVolume,
+          streamId: message.payload.streamId,
+          rampMs: message.payload.rampMs,
         });
-        console.log("sent from tauri to popup");
+        break;
+
+      // transport commands use the same content script messages the popup buttons send
+      case 'SET_PLAYBACK': {
+        // a toggle is decided here for the whole tab, every frame deciding on its own would start the paused ones
+        // and pause the playing ones
+        const { action } = message.payload;
+        const resolved = action === 'toggle' ? (isPlaying(await tabStore.get(message.payload.tabId)) ? 'pause' : 'play') : action;
+        relayTauriCommand(message, { type: 'MEDIA_PLAYBACK', action: resolved });
+        break;
       }
-      
-      
+
+      case 'SEEK':
+        relayTauriCommand(message, { type: 'MEDIA_SEEK', mode: message.payload.mode, position: message.payload.position });
+        break;
+
+      case 'SET_PLAYBACK_RATE':
+        relayTauriCommand(message, { type: 'MEDIA_PLAYBACK_RATE', rate: message.payload.rate });
+        break;
+
+      case 'SKIP_TRACK':
+        relayTauriCommand(message, { type: 'MEDIA_SKIP_TRACK', direction: message.payload.direction });
+        break;
+
+      case 'SET_EFFECTS': {
+        // the content script gets the complete effects, merged here so saveForSite stores exactly what's applied
+        const tab = await tabStore.get(message.payload.tabId);
+        const effects = mergeEffects(tab?.effects ?? FLAT_EFFECTS, message.payload.effects);
+        const pattern = tab && sitePatternOf(tab.tabUrl);
+        if (message.payload.saveForSite && pattern && !await isBlockedForDesktop(message.payload.tabId)) {
+          await updateSiteRule(pattern, { effects });
+        }
+        relayTauriCommand(message, { type: 'TAURI_EFFECTS_CHANGED', effects });
+        break;
+      }
+
+      case 'LIST_SITE_RULES':
+        sendSiteRules(message.requestId ?? null);
+        break;
+
+      case 'CREATE_SITE_RULE':
+        // the desktop app can't control blocked sites, not even through a rule, wildcards that reach one included
+        if (patternOverlapsBlocked(await privacySettings, message.payload.pattern.trim())) {
+          sendSiteRules(message.requestId ?? null);
+          break;
+        }
+        saveSiteRule(message.payload).then(() => sendSiteRules(message.requestId ?? null));
+        break;
+
+      case 'DELETE_SITE_RULE':
+        deleteSiteRule(message.payload.id).then(() => sendSiteRules(message.requestId ?? null));
+        break;
+
+      case 'GET_PLAYBACK_POLICY':
+        sendPlaybackPolicy(message.requestId ?? null);
+        break;
+
+      case 'SET_PLAYBACK_POLICY': {
+        // fields the desktop left out keep their value, undefined would wipe them
+        const changes = Object.fromEntries(Object.entries(message.payload).filter(([, value]) => value !== undefined));
+        const current = await loadPlaybackPolicy();
+        const updated = { ...current, ...changes };
+        if (message.payload.exemptions) {
+          // exemptions for blocked sites were never sent, so the desktop's list can't have them. they stay, and it
+          // can't add any that reach a blocked site either
+          const settings = await privacySettings;
+          updated.exemptions = [
+            ...current.exemptions.filter(pattern => isPatternBlocked(settings, pattern)),
+            ...message.payload.exemptions.filter(pattern => !patternOverlapsBlocked(settings, pattern)),
+          ];
+        }
+        await playbackPolicyStorage.setValue(updated); // the watcher applies it and tells the desktop app
+        sendPlaybackPolicy(message.requestId ?? null, updated);
+        break;
+      }
+
+      case 'GET_NORMALIZATION':
+        sendToTauri({ type: 'NORMALIZATION', requestId: message.requestId ?? null, payload: await loadNormalizationSettings() });
+        break;
+
+      case 'SET_NORMALIZATION': {
+        const changes = Object.fromEntries(Object.entries(message.payload).filter(([, value]) => value !== undefined));
+        const updated = { ...await loadNormalizationSettings(), ...changes };
+        await normalizationSettingsStorage.setValue(updated);
+        sendToTauri({ type: 'NORMALIZATION', requestId: message.requestId ?? null, payload: updated });
+        break;
+      }
+
+      case 'GET_SLEEP_TIMER':
+        sendSleepTimer(await sleepTimerStorage.getValue(), message.requestId ?? null);
+        break;
+
+      // the storage watcher sends the change to the desktop app as well, with a null requestId
+      case 'SET_SLEEP_TIMER':
+        await startSleepTimer(message.payload.minutes, message.payload.fadeSeconds);
+        sendSleepTimer(await sleepTimerStorage.getValue(), message.requestId ?? null);
+        break;
+
+      case 'EXTEND_SLEEP_TIMER':
+        sendSleepTimer(await extendSleepTimer(message.payload.minutes), message.requestId ?? null);
+        break;
+
+      case 'CANCEL_SLEEP_TIMER':
+        await cancelSleepTimer();
+        sendSleepTimer(null, message.requestId ?? null);
+        break;
+
+      case 'SUBSCRIBE_LEVELS':
+        desktopWantsLevels = message.payload.enabled;
+        saveConnectionSession();
+        broadcastLevelsSubscription();
+        break;
+
+      case 'ERROR':
+        // never answer an ERROR with another ERROR, that could ping-pong forever
+        console.error('Tauri reported an error:', message.payload);
+        break;
+
+      case 'PONG':
+        if (pingSentAt !== null) {
+          latencyMs = Date.now() - pingSentAt;
+          pingSentAt = null;
+          sendConnectionStateToPopup();
+        }
+        break;
     }
-  
   }
-  // call this function on extension load with browser
-  connect(); // connect to the server. inside this function we handle the sending of tabs to tauri
+
+  // forwards a desktop command to the tab's content script and always answers the desktop with an ACK or a NACK
+  // so it learns when a tab was closed, can't run our content script or has nothing to control
+  async function relayTauriCommand(command: TabCommandMessage, contentMessage: Record<string, unknown> & { type: string }) {
+    const { tabId } = command.payload;
+    const requestId = command.requestId ?? null;
+
+    const nack = async (reason: NackReason, text: string) => {
+      sendToTauri({
+        type: 'NACK',
+        requestId,
+        payload: { command: command.type, reason, message: text, tab: await desktopView(await tabStore.get(tabId)) },
+      });
+    };
+
+    try {
+      await browser.tabs.get(tabId);
+    } catch {
+      await nack('TAB_NOT_FOUND', `Tab ${tabId} does not exist`);
+      return;
+    }
+    // same answer as for a closed tab, a blocked site's tab doesn't exist as far as the desktop app knows
+    if (await isBlockedForDesktop(tabId)) {
+      await nack('TAB_NOT_FOUND', `Tab ${tabId} does not exist`);
+      return;
+    }
+
+    // a stream lives in one frame, anything else goes to every frame that has media
+    const streamId = 'streamId' in command.payload ? command.payload.streamId : undefined;
+    const results = await sendToFrames(tabId, contentMessage, streamId);
+
+    // a whole-tab mute doesn't need anything to control, it falls back to the browser's tab mute.
+    // acknowledged with 0 affected elements, the tab's tabMutedBy tells the desktop app what happened
+    const tabMuteChanged = command.type === 'SET_MUTE' && streamId === undefined
+      && await applyTabMuteFallback(tabId, command.payload.isMuted, results);
+
+    const applied = results.filter((result): result is TabCommandResult => !!result && result.affected > 0);
+    if (applied.length === 0 && tabMuteChanged) {
+      sendToTauri({
+        type: 'ACK',
+        requestId,
+        payload: { command: command.type, affectedElements: 0, tab: await desktopView(await tabStore.get(tabId)) },
+      });
+      return;
+    }
+
+    if (results.every(result => result === undefined)) {
+      await nack('NO_CONTENT_SCRIPT', `Tab ${tabId} has no content script to receive commands`);
+      return;
+    }
+
+    if (applied.length === 0) {
+      if (results.some(result => result?.error === 'NOT_SUPPORTED')) {
+        await nack('NOT_SUPPORTED', `Tab ${tabId} does not support ${command.type}`);
+      } else if (results.some(result => result?.error === 'STREAM_NOT_FOUND')) {
+        await nack('STREAM_NOT_FOUND', `Tab ${tabId} has no stream with that id`);
+      } else {
+        await nack('NO_MEDIA_ELEMENTS', `Tab ${tabId} has no media elements to control`);
+      }
+      return;
+    }
+
+    // the content script's own state report may still be on its way, so merge in what it answered
+    const current = await tabStore.get(tabId);
+    const tab = await desktopView(current && { ...current, ...applied[0].state });
+    sendToTauri({
+      type: 'ACK',
+      requestId,
+      payload: { command: command.type, affectedElements: applied.reduce((sum, result) => sum + result.affected, 0), tab },
+    });
+  }
+
+  // rules edited in the popup should show up in the desktop app right away
+  siteRulesStorage.watch(rules => {
+    sendSiteRules(null, rules ?? []);
+  });
+
+  // changing the endpoint or the token on the options page reconnects cleanly with the new settings
+  connectionSettingsStorage.watch(async settings => {
+    await resumed; // the resume would otherwise overwrite these with what it loaded
+    connectionSettings = { ...DEFAULT_CONNECTION_SETTINGS, ...settings };
+    reconnectAttempts = 0;
+    connect();
+  });
+
+  // runs on every alarm: reconnects when the socket is gone and no retry is pending,
+  // which also covers the retries whose timers died with a suspended worker.
+  // an alarm that wakes the worker fires before the resume has loaded the settings and the session, so wait for it
+  async function checkConnection() {
+    await resumed;
+    if (manuallyDisconnected) return;
+    if (socket && (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING)) return;
+    if (nextRetryAt !== null && Date.now() < nextRetryAt) return; // the backoff timer is still on it
+    connect();
+  }
+
+  browser.alarms.create(WATCHDOG_ALARM, { periodInMinutes: WATCHDOG_PERIOD_MINUTES });
+  browser.alarms.onAlarm.addListener(alarm => {
+    if (alarm.name === WATCHDOG_ALARM) checkConnection();
+    if (alarm.name === SLEEP_TIMER_ALARM) runSleepTimer();
+  });
+  // a timer whose alarm got lost with the worker is brought back, one that was due already goes off right away
+  sleepTimerStorage.getValue().then(syncSleepTimerAlarm);
+
+  // runs whenever the worker starts, after a browser start as much as after a suspension.
+  // an offscreen document may still hold our authenticated socket, then we carry on with it and only resend the
+  // full tab state since the deltas we'd have sent while suspended are lost. otherwise we connect from scratch,
+  // the handshake sends the full state anyway
+  async function resumeConnection() {
+    connectionSettings = await loadConnectionSettings();
+    const session = await connectionSessionStorage.getValue();
+    reconnectAttempts = session.reconnectAttempts;
+    lastClose = session.lastClose;
+    if (session.manuallyDisconnected) {
+      manuallyDisconnected = true;
+      updateStatus('DISCONNECTED');
+      return;
+    }
+
+    if (connectionSettings.socketHost === 'offscreen' && session.socketId && session.desktopPeer) {
+      const adopted = await adoptOffscreenSocket(session.socketId);
+      if (adopted) {
+        socket = adopted;
+        wireSocket(adopted);
+        desktopPeer = session.desktopPeer;
+        pairingNonce = session.pairingNonce;
+        tauriSeq = session.tauriSeq;
+        desktopWantsLevels = session.desktopWantsLevels ?? false; // missing in sessions saved before it was kept
+        status = 'CONNECTED';
+        sendConnectionStateToPopup();
+        startHeartbeat();
+        console.log('Resumed the offscreen connection to Tauri');
+        // same as after the handshake, a desktop app without deltas doesn't know what a snapshot is
+        if (desktopPeer.capabilities.includes('TAB_DELTAS')) {
+          await sendTabsSnapshot();
+        } else {
+          await sendTabsToTauri();
+        }
+        if (desktopWantsLevels) broadcastLevelsSubscription(); // content scripts that started since don't know yet
+        return;
+      }
+    }
+
+    // a retry that was pending when the worker went away: wait out the rest of its delay
+    if (session.nextRetryAt !== null && session.nextRetryAt > Date.now()) {
+      nextRetryAt = session.nextRetryAt;
+      updateStatus('RECONNECTING');
+      reconnectTimeout = setTimeout(() => connect(), session.nextRetryAt - Date.now());
+      return;
+    }
+    connect(); // connect to the server. inside this function we handle the sending of tabs to tauri
+  }
+
+  // every other way into connect() waits for this, until it's done the endpoint, a manual disconnect and an
+  // adoptable offscreen socket aren't known yet
+  const resumed = resumeConnection();
 });
 
 
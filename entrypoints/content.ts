@@ -1,14 +1,73 @@
 /**
- * CONTENT SCRIPT (runs once per tab)
- * - Detects audio/video elements in the page DOM
+ * CONTENT SCRIPT (runs once per frame, so embedded players in iframes are covered too)
+ * - Detects audio/video elements in the page DOM, open and closed shadow roots included, plus whatever the main-world
+ *   hooks hand over (detached `new Audio()` objects, players in shadow roots the scan hasn't reached yet), see entrypoints/media-hooks.content.ts
+ * - Reports the page's AudioContexts (games, synths, web DAWs) as streams too, the hooks give each one a master gain
+ * - Applies the tab's equalizer/compressor, see utils/sound-effects.ts
+ * - Normalizes the tab's loudness when that's enabled, see utils/normalization.ts
+ * - Fades out and pauses when the sleep timer goes off, see utils/sleep-timer.ts
+ * - Asks the site's adapter first where there is one (YouTube, Spotify, SoundCloud, Twitch), see utils/site-adapters
+ * - Every frame reports on its own, the background knows the frameId and merges the frames of a tab
  * - Listens for play/pause/volume events on media elements
  * - Sends audio state updates to background script
  * - Receives volume/mute control commands from popup and applies them to elements
  */
 
+import { MUTE_RAMP_MS, clampVolume } from '@/utils/volume';
+import { EMPTY_MEDIA_INFO } from '@/utils/tab-state';
+import { findSiteRule, siteRulesStorage, type SiteRule } from '@/utils/site-rules';
+import { FLAT_EFFECTS, isFlat, wireEffectChain, type SoundEffects } from '@/utils/sound-effects';
+import {
+  DEFAULT_NORMALIZATION_SETTINGS,
+  INACTIVE_NORMALIZATION,
+  loadNormalizationSettings,
+  normalizationSettingsStorage,
+  type NormalizationSettings,
+  type NormalizationState,
+} from '@/utils/normalization';
+import {
+  DEFAULT_SITE_ADAPTER_SETTINGS,
+  findSiteAdapter,
+  loadSiteAdapterSettings,
+  siteAdapterSettingsStorage,
+  type SiteAdapterSettings,
+} from '@/utils/site-adapters';
+import {
+  ELEMENT_SOURCE_EVENT,
+  MEDIA_ELEMENT_EVENT,
+  MEDIA_REPLAY_EVENT,
+  WEB_AUDIO_STATE_EVENT,
+  readWebAudioLevels,
+  runMediaSessionAction,
+  sendElementGainCommand,
+  sendWebAudioCommand,
+  stopWebAudioMetering,
+  type WebAudioContextReport,
+} from '@/utils/media-bridge';
+import type { MediaInfo, PlaybackAction, SeekMode, StreamState, TabCommandResult, TrackDirection } from '@/utils/tab-state';
+
+// while playing, currentTime is only re-sent this often, the receivers extrapolate in between with playbackRate
+const POSITION_REPORT_INTERVAL = 5000;
+// how often levels are measured and sent while someone is watching the meters
+const LEVELS_INTERVAL = 100;
+// loudness normalization: how often loudness is measured, how much of the average one measurement moves
+// (about a 3s window, EBU short-term loudness), how fast the gain follows (time constant, s)
+// and below what level a tab counts as silent and leaves the correction alone (dBFS)
+const LOUDNESS_INTERVAL = 250;
+const LOUDNESS_SMOOTHING = LOUDNESS_INTERVAL / 3000;
+const CORRECTION_TIME_CONSTANT = 1.5;
+const SILENCE_LEVEL = -60;
+// volume ramps: how often an element's volume steps toward its target, and how far apart volume commands can be
+// and still count as one slider drag (the volume from before the drag is what unmuting from 0 goes back to)
+const RAMP_STEP_INTERVAL = 20;
+const VOLUME_GESTURE_GAP = 1000;
+// how often the site adapter is asked about ads and the queue while the tab plays
+const SITE_INFO_INTERVAL = 1000;
 
 export default defineContentScript({
   matches: ['<all_urls>'],
+  allFrames: true, // embedded YouTube/Vimeo/SoundCloud players live in their own frames
+  matchAboutBlank: true, // players some pages build inside about:blank frames
 
   main() {
 
@@ -17,26 +76,133 @@ export default defineContentScript({
 
     // holds the last data 'updateAudioStatus()' sent to background so that before sending new data we compare it with the last one sent 
     // and if its different we send the new one if not we send nothing. only send if data is new/different
-    // this mainly prevents 'setupPeriodicCheck()' function that gets called every 2 seconds from sending the same data every 2 seconds unnecessarily   
+    // this mainly keeps the element events, the MutationObserver picking up new elements (in shadow roots too) and the
+    // main-world hooks' reports from sending the same state again every time one of them fires
     let lastState = {
       type: '',
       volume: -1,
       muted: false,
+      media: EMPTY_MEDIA_INFO,
+      effects: FLAT_EFFECTS,
+      normalization: INACTIVE_NORMALIZATION,
+      streams: [] as StreamState[],
     };
 
     let hasSentInitialState = false; // Flag to ensure we always send the first valid state
 
+    // STREAMS: every element gets a stable id so the popup and the desktop app can mix them independently
+    const streamIds = new Map<HTMLMediaElement, string>();
+    let nextStreamId = 1;
+    // every frame counts its streams from 1, the prefix keeps the ids of a tab's frames apart
+    const streamIdPrefix = Math.random().toString(36).slice(2, 8);
+
+    // WEB AUDIO: the page's AudioContexts as the main-world hooks last reported them, keyed by the hooks' id
+    const webAudioContexts = new Map<number, WebAudioContextReport>();
+    const suspendedByUs = new Set<number>(); // contexts a pause command suspended, only those are resumed by play
+
+    // GAIN STAGE: element.volume is capped at 1.0 so anything above 100% goes through Web Audio gain nodes
+    // elements only get routed through a gain node once the user actually asks for more than 100%,
+    // routing changes how the page's audio is played so we don't touch pages that don't need it
+    let boostContext: AudioContext | null = null; // our own context, only created when we wire an element ourselves
+    // one gain node per element in our own context so every stream can be boosted on its own.
+    // the gain value is applied on top of element.volume, always >= 1
+    const elementGains = new Map<HTMLMediaElement, GainNode>();
+    // elements the page routes through a source node of its own: the hooks put a gain behind it, we set it by id
+    // and remember its value, see utils/media-bridge.ts
+    const pageSourceGains = new Map<HTMLMediaElement, { gainId: number, value: number }>();
+    // METERING: one analyser per audio context, fed by the element gains, only wired up while someone subscribed.
+    // like the normalizer, a subscription routes the playing elements through their gain (unity, so they sound the
+    // same), the page's contexts are measured by the hooks. cross-origin media without CORS can't be routed and
+    // stays unmeasured, a tab with only that reports no levels
+    const analysers = new Map<BaseAudioContext, AnalyserNode>();
+    // SOUND EFFECTS: the element gains feed one bus in our own context that runs through the tab's effect chain,
+    // the page's contexts get the same chain behind their master gain from the hooks
+    let effects: SoundEffects = FLAT_EFFECTS;
+    let effectsBus: GainNode | null = null;
+    let effectNodes: AudioNode[] = [];
+    // NORMALIZATION: the last gain before the speakers, after the user's volume and the effects. the loudness is
+    // measured on the effects bus, divided by the user's volume so turning a tab down isn't "corrected" back up.
+    // the page's own AudioContexts aren't measured, their audio never passes through here
+    let normalizationSettings: NormalizationSettings = DEFAULT_NORMALIZATION_SETTINGS;
+    let normalizerGain: GainNode | null = null;
+    let loudnessAnalyser: AnalyserNode | null = null;
+    let loudnessInterval: ReturnType<typeof setInterval> | undefined;
+    let loudnessMeanSquare = 0; // the running short-term average, 0 until the first measurement
+    let normalization: NormalizationState = INACTIVE_NORMALIZATION;
+    // VOLUME RAMPS: volume and mute commands can fade over rampMs instead of jumping, elements step their volume
+    // from here, contexts ramp their master gain in the main world. a new command for an element cancels its ramp
+    // and starts from wherever that one got to. meanwhile the element is reported at where it's headed
+    const volumeRamps = new Map<HTMLMediaElement, { timer: ReturnType<typeof setInterval>, level: number, volume: number, muted: boolean }>();
+    // contexts the sleep timer is fading, paused once their master gain got to 0
+    const contextFades = new Map<number, ReturnType<typeof setTimeout>>();
+    // PRE-MUTE VOLUME: what an element (or a context, by id) played at before it was turned down to 0, unmuting
+    // goes back there whoever sent the mute. commands within VOLUME_GESTURE_GAP of each other are one gesture
+    const preMuteVolumes = new Map<HTMLMediaElement | number, number>();
+    const gestureStartVolumes = new Map<HTMLMediaElement | number, number>();
+    let lastVolumeCommandAt = 0;
+    const meteredGains = new Set<GainNode>(); // gains currently connected to their context's analyser
+    let meteringWanted = false; // the background tells us when the popup or the desktop app wants levels
+    let meteringInterval: ReturnType<typeof setInterval> | undefined;
+    let lastActiveElement: HTMLMediaElement | null = null; // the element that played most recently, transport commands act on it
+
+    // SITE RULES: remembered volume/mute for this site, applied once when the page's first media shows up
+    let siteRules: SiteRule[] | null = null; // null until loaded from storage
+    let siteRuleApplied = false;
+
+    // SITE ADAPTER: what we know about this particular site, null for every site without an adapter
+    const siteAdapter = findSiteAdapter(location.href);
+    let siteAdapterSettings: SiteAdapterSettings = DEFAULT_SITE_ADAPTER_SETTINGS;
+    let siteInfoInterval: ReturnType<typeof setInterval> | undefined;
+    let siteSyncTimeout: ReturnType<typeof setTimeout> | undefined;
+    let commandedVolume: number | null = null; // the last whole-tab volume, put back on sites that reset it per track
+    let mutedForAd = false; // we muted the tab because an ad started, it's unmuted when the ad is over
+
+    type StatusData = {muted?: boolean, volume?: number, media?: MediaInfo};
+
+    // true when the new position is worth sending: the user seeked (position jumped away from where playback
+    // would be by now) or the throttle interval passed, normal playback progress alone is not reported
+    function positionNeedsReport(media: MediaInfo) {
+      const last = lastState.media;
+      if (media.currentTime === last.currentTime) return false;
+      const sinceReport = Date.now() - last.positionUpdatedAt;
+      const expected = last.currentTime + (isTabPlayingAudio ? (sinceReport / 1000) * last.playbackRate : 0);
+      return Math.abs(media.currentTime - expected) > 1 || sinceReport >= POSITION_REPORT_INTERVAL;
+    }
+
+    // compares every media field except the position, which positionNeedsReport() throttles
+    function mediaInfoChanged(media: MediaInfo) {
+      const last = lastState.media;
+      return media.mediaTitle !== last.mediaTitle || media.mediaArtist !== last.mediaArtist || media.mediaAlbum !== last.mediaAlbum ||
+        media.artworkUrl !== last.artworkUrl || media.mediaSrc !== last.mediaSrc || media.duration !== last.duration ||
+        media.playbackRate !== last.playbackRate || media.isAd !== last.isAd || media.isLive !== last.isLive ||
+        media.queuePosition !== last.queuePosition || media.queueLength !== last.queueLength;
+    }
+
       // Function to notify if a tab is playing audio or not
-    function updateAudioStatus(state: string, data: {muted?: boolean, volume?: number} = {}) {
+    function updateAudioStatus(state: string, data: StatusData = {}) {
+      updateMetering(); // every playing/stopped transition passes through here
+      updateNormalizer();
+      updateSiteInfoWatch();
       // newState will represent new data about audio elements  
       const newState = {
         type: state,
         volume: data.volume ?? lastState.volume, // Use new value or fall back to last known
         muted: data.muted ?? lastState.muted,
+        media: data.media ?? lastState.media,
+        effects,
+        normalization,
+        streams: readStreams(),
+      }
+      const sendPosition = positionNeedsReport(newState.media);
+      if (!sendPosition) {
+        // keep the last reported position so the throttle compares against what the receivers actually know
+        newState.media = { ...newState.media, currentTime: lastState.media.currentTime, positionUpdatedAt: lastState.media.positionUpdatedAt };
       }
 
       if (
-        !hasSentInitialState || newState.type !== lastState.type || newState.volume !== lastState.volume || newState.muted !== lastState.muted
+        !hasSentInitialState || newState.type !== lastState.type || newState.volume !== lastState.volume || newState.muted !== lastState.muted ||
+        mediaInfoChanged(newState.media) || sendPosition || JSON.stringify(newState.streams) !== JSON.stringify(lastState.streams) ||
+        newState.effects !== lastState.effects || newState.normalization !== lastState.normalization
       ) {
 
         lastState = newState; // update the old data with the new one that w're about to send 
@@ -48,72 +214,722 @@ export default defineContentScript({
           type: newState.type, 
           volume: newState.volume,
           isMuted: newState.muted,
+          media: newState.media,
+          effects: newState.effects,
+          normalization: newState.normalization,
+          streams: newState.streams,
           tabUrl: window.location.href,
           tabTitle: document.title,
+          incognito: browser.extension.inIncognitoContext,
           timestamp: Date.now()
         })
       }
       
     }
 
-    // CONTENT SCRIPT: Receive volume control commands FROM popup/background
-    // if the message was sent via browser.tabs.sendMessage then Browser already routed this message to the specific tab we provided sendMessage 
-    // but if the message was sent via browser.runtime.sendMessage then wa have data that we can access all over the extension
-    browser.runtime.onMessage.addListener((message) =>{
-      // these are popup ui messages so we are already in the correct tab so we just loop through the elemets inside it
-      if(message.type === 'UI_VOLUME_CHANGE') {
-        audioElements.forEach(element => {
+    // the page's media session metadata, what YouTube/Spotify show in the OS media overlay
+    function readSessionMetadata() {
+      const metadata = navigator.mediaSession?.metadata;
+      const artwork = metadata?.artwork ?? [];
+      return {
+        mediaTitle: metadata?.title ?? '',
+        mediaArtist: metadata?.artist ?? '',
+        mediaAlbum: metadata?.album ?? '',
+        artworkUrl: artwork.length > 0 ? artwork[artwork.length - 1].src : '', // pages list artwork smallest first
+      };
+    }
 
-          element.volume = message.volume;
+    // what the site adapter knows about the page's media, the generic defaults without one
+    function readSiteInfo() {
+      return {
+        siteAdapter: siteAdapter?.name ?? null,
+        isAd: false,
+        isLive: null,
+        queuePosition: null,
+        queueLength: null,
+        ...siteAdapter?.readInfo?.(),
+      };
+    }
 
-        }) 
-      }else if(message.type === 'UI_MUTE_SET') {
-        audioElements.forEach(element => {
+    // now-playing info: the media session metadata plus the position of the element itself
+    function readMediaInfo(element: HTMLMediaElement): MediaInfo {
+      return {
+        ...readSessionMetadata(),
+        ...readSiteInfo(),
+        mediaSrc: element.currentSrc,
+        currentTime: element.currentTime,
+        positionUpdatedAt: Date.now(),
+        duration: Number.isFinite(element.duration) ? element.duration : null, // NaN before metadata, Infinity for live
+        playbackRate: element.playbackRate,
+      };
+    }
 
-          element.muted = message.isMuted; // change the mute state
+    // everything we report about a single element
+    function elementState(element: HTMLMediaElement): StatusData {
+      return {
+        muted: elementMuted(element),
+        volume: elementVolume(element),
+        media: readMediaInfo(element),
+      };
+    }
 
-          if(message.isMuted === false && element.volume === 0) { // if the mute value we get from popup is false which means we want to unmute and the volume is 0 from popup
-            element.volume = message.initialVolume; // initial volume we want to go back to after we unmute from volume being 0
-          }
-        })
-      }else if( message.type === 'TAURI_VOLUME_CHANGED') {
+    // a context has no source or position, only what the page put into the media session
+    function contextState(context: WebAudioContextReport): StatusData {
+      return {
+        muted: context.muted || context.volume === 0,
+        volume: context.volume,
+        media: { ...EMPTY_MEDIA_INFO, ...readSessionMetadata(), ...readSiteInfo() },
+      };
+    }
+
+    // a context plays while it runs with something connected to it, suspended it counts as paused
+    function isContextPlaying(context: WebAudioContextReport) {
+      return context.state === 'running' && context.hasInput;
+    }
+
+    function webAudioStreamId(context: WebAudioContextReport) {
+      return `webaudio-${streamIdPrefix}-${context.contextId}`;
+    }
+
+    // contexts nothing was ever connected to are left out everywhere, plenty of pages create one "just in case"
+    function activeContexts() {
+      return [...webAudioContexts.values()].filter(context => context.hasInput);
+    }
+
+    // seeking or changing speed doesn't change whether the tab plays, so re-send the current status with the new position
+    function reportMediaChange(element: HTMLMediaElement) {
+      if (hasSentInitialState && element === representativeElement()) {
+        updateAudioStatus(lastState.type, elementState(element));
+      }
+    }
+
+    // the volume an element plays at right now, including the boost from the gain stage
+    function effectiveVolume(element: HTMLMediaElement) {
+      return element.volume * (elementGains.get(element)?.gain.value ?? pageSourceGains.get(element)?.value ?? 1);
+    }
+
+    // what we report for an element: where a running ramp takes it rather than the step it's at
+    function elementVolume(element: HTMLMediaElement) {
+      return volumeRamps.get(element)?.volume ?? effectiveVolume(element);
+    }
+
+    function elementMuted(element: HTMLMediaElement) {
+      const ramp = volumeRamps.get(element);
+      return ramp ? ramp.muted || ramp.volume === 0 : element.muted || element.volume === 0; // a slider at 0 counts as muted
+    }
+
+    // the id an element is reported under, handed out the first time we're asked
+    function streamIdOf(element: HTMLMediaElement) {
+      let id = streamIds.get(element);
+      if (!id) {
+        id = `stream-${streamIdPrefix}-${nextStreamId++}`;
+        streamIds.set(element, id);
+      }
+      return id;
+    }
+
+    // the elements a command applies to: one stream when the sender picked one, otherwise all of them
+    function commandTargets(streamId?: string) {
+      if (streamId === undefined) return [...audioElements];
+      return [...audioElements].filter(element => streamIds.get(element) === streamId);
+    }
+
+    // the contexts a command applies to, like commandTargets(). whole-tab commands skip contexts the page routes
+    // its own elements through, the elements already got the new volume and the master gain would apply it twice
+    function contextTargets(streamId?: string) {
+      if (streamId === undefined) return activeContexts().filter(context => !context.hasElementSource);
+      return activeContexts().filter(context => webAudioStreamId(context) === streamId);
+    }
+
+    // the elements worth reporting as streams: the ones that are playing or played at some point,
+    // feeds like reddit keep dozens of never-started videos around that would only be noise. every active context follows
+    function readStreams(): StreamState[] {
+      const elementStreams = [...audioElements]
+        .filter(element => !element.paused || element.currentTime > 0)
+        .map((element): StreamState => ({
+          streamId: streamIdOf(element),
+          kind: element instanceof HTMLVideoElement ? 'video' : 'audio',
+          src: element.currentSrc,
+          volume: elementVolume(element),
+          muted: elementMuted(element),
+          paused: element.paused,
+        }));
+      const contextStreams = activeContexts().map((context): StreamState => ({
+        streamId: webAudioStreamId(context),
+        kind: 'webaudio',
+        src: '',
+        volume: context.volume,
+        muted: context.muted || context.volume === 0,
+        paused: !isContextPlaying(context),
+      }));
+      return [...elementStreams, ...contextStreams];
+    }
+
+    // cross-origin media without CORS headers comes out of a MediaElementSource as pure silence
+    // so routing those elements would mute them instead of boosting them
+    function canRouteThroughGain(element: HTMLMediaElement) {
+      if (!element.currentSrc) return false;
+      const url = new URL(element.currentSrc, location.href);
+      return url.origin === location.origin || url.protocol === 'data:' || element.crossOrigin !== null;
+    }
+
+    // wire an element into our own context: element -> source -> its gain -> speakers
+    // once an element has a source node it can never get another one, so this is only done when a boost is needed
+    // and never for an element the page already made a source for
+    function routeThroughGain(element: HTMLMediaElement) {
+      if (elementGains.has(element) || pageSourceGains.has(element) || !canRouteThroughGain(element)) return;
+      try {
+        if (!boostContext) {
+          const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+          boostContext = new AudioContextClass() as AudioContext;
+        }
+        const gain = boostContext.createGain();
+        gain.connect(effectsInput(boostContext));
+        boostContext.createMediaElementSource(element).connect(gain);
+        elementGains.set(element, gain);
+        if (meteringInterval) {
+          connectMeter(gain);
+        }
+        boostContext.resume(); // contexts start suspended until the page had a user gesture
+      } catch (err) {
+        console.log('Could not route element through the gain stage:', err);
+      }
+    }
+
+    // where the element gains go instead of the speakers, created with our context:
+    // bus -> effects -> normalizer -> speakers, and bus -> K-weighting -> loudness analyser on the side
+    function effectsInput(context: AudioContext) {
+      if (!effectsBus) {
+        effectsBus = context.createGain();
+        normalizerGain = context.createGain();
+        normalizerGain.gain.value = dbToGain(normalization.correctionDb);
+        normalizerGain.connect(context.destination);
+        effectNodes = wireEffectChain(effectsBus, normalizerGain, effects, (from, to) => from.connect(to));
+
+        // the K-weighting loudness measurements use, roughly: no rumble, a bit more weight on the presence range
+        const highPass = context.createBiquadFilter();
+        highPass.type = 'highpass';
+        highPass.frequency.value = 60;
+        const presence = context.createBiquadFilter();
+        presence.type = 'highshelf';
+        presence.frequency.value = 1500;
+        presence.gain.value = 4;
+        loudnessAnalyser = context.createAnalyser();
+        loudnessAnalyser.fftSize = 8192; // ~190ms per read at 44.1kHz
+        effectsBus.connect(highPass);
+        highPass.connect(presence);
+        presence.connect(loudnessAnalyser);
+      }
+      return effectsBus;
+    }
+
+    // switches the tab to new effects, returns how many elements and contexts they apply to
+    function applyEffects(newEffects: SoundEffects) {
+      effects = newEffects;
+      if (!isFlat(effects)) {
+        // like the boost, an element can only be shaped once it plays through one of our gain nodes
+        audioElements.forEach(routeThroughGain);
+      }
+      if (effectsBus && normalizerGain) {
+        effectsBus.disconnect(effectNodes[0] ?? normalizerGain); // only the chain, the loudness tap stays
+        effectNodes.forEach(node => node.disconnect());
+        effectNodes = wireEffectChain(effectsBus, normalizerGain, effects, (from, to) => from.connect(to));
+      }
+      activeContexts().forEach(context => sendWebAudioCommand({ contextId: context.contextId, effects }));
+      return audioElements.size + activeContexts().length;
+    }
+
+    function dbToGain(db: number) {
+      return Math.pow(10, db / 20);
+    }
+
+    // the global setting, unless the site rule for this page says otherwise
+    function isNormalizing() {
+      const rule = siteRules ? findSiteRule(siteRules, location.href) : null;
+      return rule?.normalize ?? normalizationSettings.enabled;
+    }
+
+    // measuring only runs while the tab plays, a paused tab keeps its correction so resuming doesn't jump
+    function updateNormalizer() {
+      const active = isNormalizing();
+      const shouldRun = active && isTabPlayingAudio;
+      if (shouldRun && !loudnessInterval) {
         audioElements.forEach(element => {
+          if (!element.paused) routeThroughGain(element);
+        });
+        loudnessInterval = setInterval(measureLoudness, LOUDNESS_INTERVAL);
+      } else if (!shouldRun && loudnessInterval) {
+        clearInterval(loudnessInterval);
+        loudnessInterval = undefined;
+      }
+      if (!active && normalization.active) {
+        loudnessMeanSquare = 0;
+        setCorrection(false, 0);
+      } else if (active && !normalization.active) {
+        setCorrection(true, normalization.correctionDb);
+      }
+    }
+
+    function measureLoudness() {
+      const element = representativeElement();
+      if (!loudnessAnalyser || !element) return; // nothing plays through the gain stage yet
+      const data = new Float32Array(loudnessAnalyser.fftSize);
+      loudnessAnalyser.getFloatTimeDomainData(data);
+      const volume = effectiveVolume(element);
+      if (volume === 0) return;
+      // what the tab would measure at 100%, the user's volume stays theirs
+      const meanSquare = data.reduce((sum, sample) => sum + sample * sample, 0) / data.length / (volume * volume);
+      if (10 * Math.log10(meanSquare) < SILENCE_LEVEL) return; // gaps between tracks must not pull the gain up
+      loudnessMeanSquare = loudnessMeanSquare === 0
+        ? meanSquare
+        : loudnessMeanSquare + (meanSquare - loudnessMeanSquare) * LOUDNESS_SMOOTHING;
+      const { targetLevel, maxCorrection } = normalizationSettings;
+      const correction = targetLevel - 10 * Math.log10(loudnessMeanSquare);
+      setCorrection(true, Math.min(Math.max(correction, -maxCorrection), maxCorrection));
+    }
+
+    // glides the normalizer toward the correction and reports it when the rounded value changed
+    function setCorrection(active: boolean, correctionDb: number) {
+      if (normalizerGain) {
+        normalizerGain.gain.setTargetAtTime(dbToGain(correctionDb), normalizerGain.context.currentTime, CORRECTION_TIME_CONSTANT);
+      }
+      const rounded = Math.round(correctionDb * 2) / 2;
+      if (active === normalization.active && rounded === normalization.correctionDb) return;
+      normalization = { active, correctionDb: rounded };
+      if (hasSentInitialState) {
+        updateAudioStatus(lastState.type);
+      }
+    }
+
+    function connectMeter(gain: GainNode) {
+      if (meteredGains.has(gain)) return;
+      let analyser = analysers.get(gain.context);
+      if (!analyser) {
+        analyser = gain.context.createAnalyser();
+        analyser.fftSize = 2048; // ~46ms of samples at 44.1kHz, enough to catch peaks between two reads
+        analysers.set(gain.context, analyser);
+      }
+      gain.connect(analyser); // analysers don't need an output, they get processed anyway
+      meteredGains.add(gain);
+    }
 
-          element.volume = message.volume;
-        }) 
-      }else if(message.type === 'TAURI_MUTE_CHANGED') {
+    // peak and RMS over the last analyser window, linear 0..1 (above 1 when boosted).
+    // null when nothing in the frame can be measured
+    function measureLevels() {
+      const contextLevels = activeContexts().length > 0 ? readWebAudioLevels() : null;
+      let peak = contextLevels?.peak ?? 0;
+      let sumSquares = contextLevels?.sumSquares ?? 0;
+      let samples = contextLevels?.samples ?? 0;
+      analysers.forEach(analyser => {
+        const data = new Float32Array(analyser.fftSize);
+        analyser.getFloatTimeDomainData(data);
+        for (const sample of data) {
+          peak = Math.max(peak, Math.abs(sample));
+          sumSquares += sample * sample;
+        }
+        samples += data.length;
+      });
+      return samples > 0 ? { peak, rms: Math.sqrt(sumSquares / samples) } : null;
+    }
+
+    // metering only runs while it's wanted and the tab actually plays, so idle tabs cost nothing
+    function updateMetering() {
+      const shouldRun = meteringWanted && isTabPlayingAudio;
+      if (shouldRun) {
+        // every transition passes through here, so elements that start while we meter get routed as well
         audioElements.forEach(element => {
+          if (!element.paused) routeThroughGain(element);
+        });
+      }
+      if (shouldRun && !meteringInterval) {
+        // elements routed later (a boost, effects) are connected by routeThroughGain()
+        elementGains.forEach(gain => connectMeter(gain));
+        meteringInterval = setInterval(() => {
+          const levels = measureLevels();
+          if (levels) browser.runtime.sendMessage({ type: 'AUDIO_LEVELS', ...levels });
+        }, LEVELS_INTERVAL);
+      } else if (!shouldRun && meteringInterval) {
+        clearInterval(meteringInterval);
+        meteringInterval = undefined;
+        meteredGains.forEach(gain => {
+          const analyser = analysers.get(gain.context);
+          if (analyser) gain.disconnect(analyser);
+        });
+        meteredGains.clear();
+        if (webAudioContexts.size > 0) stopWebAudioMetering();
+      }
+    }
+
+    // applies a volume in the 0..MAX_VOLUME range to one element, the part above 1.0 goes to its gain node
+    function setElementVolume(element: HTMLMediaElement, volume: number) {
+      const target = clampVolume(volume);
+      const pageGain = pageSourceGains.get(element);
+      if (pageGain) {
+        const boost = Math.max(target, 1);
+        if (boost !== pageGain.value) {
+          pageGain.value = boost;
+          sendElementGainCommand({ gainId: pageGain.gainId, gain: boost });
+        }
+        element.volume = target / boost;
+        return;
+      }
+      if (target > 1) {
+        routeThroughGain(element);
+      }
+      const gain = elementGains.get(element);
+      if (gain) {
+        // boosted elements play at full element volume and let the gain do the rest
+        gain.gain.value = Math.max(target, 1);
+        element.volume = target / gain.gain.value;
+      } else {
+        element.volume = Math.min(target, 1); // the others are capped at 1.0
+      }
+    }
 
-          element.muted = message.isMuted; // change the mute state
+    // moves an element to a volume and mute state, over rampMs when it's given. a mute fades the volume out and
+    // only then sets element.muted, an unmute starts from silence, so the volume itself stays what the user set
+    function rampElement(element: HTMLMediaElement, volume: number, muted: boolean, rampMs = 0, done?: () => void) {
+      const running = volumeRamps.get(element);
+      clearInterval(running?.timer);
+      volumeRamps.delete(element);
+      const from = running?.level ?? (element.muted ? 0 : effectiveVolume(element));
+      const to = muted ? 0 : volume;
+      if (rampMs <= 0 || from === to) {
+        setElementVolume(element, volume);
+        element.muted = muted;
+        done?.();
+        return;
+      }
 
-          if(message.isMuted === false && element.volume === 0) { 
-            element.volume = message.initialVolume; // initial volume we want to go back to after we unmute from volume being 0
-          }
-        })
+      setElementVolume(element, from);
+      element.muted = false;
+      const startedAt = Date.now();
+      const ramp = { timer: setInterval(() => step(), RAMP_STEP_INTERVAL), level: from, volume, muted };
+      volumeRamps.set(element, ramp);
+      const step = () => {
+        const progress = Math.min((Date.now() - startedAt) / rampMs, 1);
+        // squared toward the quiet end: we hear level on a log scale, a linear fade sounds like it all happens at the end
+        const shaped = to < from ? 1 - (1 - progress) ** 2 : progress ** 2;
+        ramp.level = from + (to - from) * shaped;
+        setElementVolume(element, ramp.level);
+        if (progress < 1) return;
+        clearInterval(ramp.timer);
+        volumeRamps.delete(element);
+        setElementVolume(element, volume);
+        element.muted = muted;
+        done?.();
+      };
+      step();
+    }
+
+    // remembers what a target played at before a drag or a command took it to 0, for unmuting later
+    function rememberBeforeSilence(target: HTMLMediaElement | number, current: number, next: number) {
+      if (!gestureStartVolumes.has(target)) gestureStartVolumes.set(target, current);
+      const before = gestureStartVolumes.get(target)!;
+      if (next === 0 && before > 0) preMuteVolumes.set(target, before);
+    }
+
+    // applies a volume to every element and context, or to a single stream. returns how many were changed.
+    // transient changes (ducking, an ad) are undone later and stay away from the site's own volume, see syncSitePlayer()
+    function setTabVolume(volume: number, streamId?: string, rampMs?: number, transient = false) {
+      const targets = commandTargets(streamId);
+      const contexts = contextTargets(streamId);
+      const target = clampVolume(volume);
+      if (streamId === undefined) commandedVolume = target;
+      const now = Date.now();
+      if (now - lastVolumeCommandAt > VOLUME_GESTURE_GAP) gestureStartVolumes.clear();
+      lastVolumeCommandAt = now;
+
+      targets.forEach(element => {
+        rememberBeforeSilence(element, elementVolume(element), target);
+        rampElement(element, target, volumeRamps.get(element)?.muted ?? element.muted, rampMs);
+      });
+      contexts.forEach(context => {
+        rememberBeforeSilence(context.contextId, context.volume, target);
+        cancelContextFade(context.contextId);
+        // the master gain has no 1.0 cap, contexts take the boost directly
+        sendWebAudioCommand({ contextId: context.contextId, volume: target, rampMs });
+      });
+      if (streamId === undefined && !transient) syncSitePlayer(rampMs);
+      // a gain change alone doesn't fire 'volumechange' so report the new volume ourselves
+      const state = representativeState();
+      if (state) {
+        updateAudioStatus("VOLUME_CHANGED", state);
+      }
+      return targets.length + contexts.length;
+    }
+
+    // mute/unmute every element and context, or a single stream. returns how many were changed.
+    // unmuting something at volume 0 brings it back to initialVolume when the sender gave one, else to its pre-mute volume
+    function setTabMuted(isMuted: boolean, initialVolume?: number, streamId?: string, rampMs?: number, transient = false) {
+      const targets = commandTargets(streamId);
+      const contexts = contextTargets(streamId);
+      const restored = (target: HTMLMediaElement | number, volume: number) =>
+        isMuted || volume > 0 ? volume : clampVolume(initialVolume ?? preMuteVolumes.get(target) ?? 0);
+
+      targets.forEach(element => rampElement(element, restored(element, elementVolume(element)), isMuted, rampMs));
+      contexts.forEach(context => {
+        cancelContextFade(context.contextId);
+        sendWebAudioCommand({ contextId: context.contextId, muted: isMuted, volume: restored(context.contextId, context.volume), rampMs });
+      });
+      if (streamId === undefined && !transient) syncSitePlayer(rampMs);
+      return targets.length + contexts.length;
+    }
+
+    // the site's own volume control follows a whole-tab command once its ramp is done, the site would jump otherwise
+    function syncSitePlayer(rampMs = 0) {
+      const syncVolume = siteAdapter?.syncVolume;
+      if (!syncVolume) return;
+      clearTimeout(siteSyncTimeout);
+      siteSyncTimeout = setTimeout(() => {
+        const element = representativeElement();
+        if (element) syncVolume(elementVolume(element), element.muted);
+      }, rampMs);
+    }
+
+    // the site's main player when it's one of ours, see SiteAdapter.mainElement
+    function siteMainElement() {
+      const element = siteAdapter?.mainElement?.();
+      return element && audioElements.has(element) ? element : null;
+    }
+
+    // ADS: the tab is muted while the site adapter says an ad plays, if the user wants that.
+    // only a mute of ours is lifted when the ad is over
+    function muteForAds(isAd: boolean) {
+      if (isAd && !mutedForAd && siteAdapterSettings.muteAds && !representativeState()?.muted) {
+        mutedForAd = true;
+        setTabMuted(true, undefined, undefined, MUTE_RAMP_MS, true);
+      } else if (!isAd && mutedForAd) {
+        mutedForAd = false;
+        setTabMuted(false, undefined, undefined, MUTE_RAMP_MS, true);
+      }
+    }
+
+    // polls the site adapter while the tab plays (or sits muted for an ad), nothing on the page fires an event
+    // when an ad starts or the queue moves
+    function updateSiteInfoWatch() {
+      const shouldRun = !!siteAdapter?.readInfo && (isTabPlayingAudio || mutedForAd);
+      if (shouldRun && !siteInfoInterval) {
+        siteInfoInterval = setInterval(() => {
+          muteForAds(readSiteInfo().isAd);
+          const state = representativeState();
+          if (state) updateAudioStatus(lastState.type, state);
+        }, SITE_INFO_INTERVAL);
+      } else if (!shouldRun && siteInfoInterval) {
+        clearInterval(siteInfoInterval);
+        siteInfoInterval = undefined;
+      }
+    }
+
+    // the element whose state stands for the whole tab: the one playing, or the first one we know about
+    function representativeElement() {
+      const main = siteMainElement();
+      const elements = main ? [main, ...audioElements] : [...audioElements]; // the site's player wins a tie
+      return elements.find(element => !element.paused) ?? elements[0];
+    }
+
+    // the context that stands for the tab instead of an element: a playing one when no element plays,
+    // or any context on a page without elements
+    function representativeContext() {
+      const playing = activeContexts().find(isContextPlaying);
+      if (playing) return [...audioElements].some(element => !element.paused) ? undefined : playing;
+      return audioElements.size === 0 ? activeContexts()[0] : undefined;
+    }
+
+    function representativeState() {
+      const context = representativeContext();
+      if (context) return contextState(context);
+      const element = representativeElement();
+      return element ? elementState(element) : null;
+    }
+
+    // the element transport commands should act on: whatever is playing, else whatever played last
+    function transportElement() {
+      const main = siteMainElement();
+      const elements = main ? [main, ...audioElements] : [...audioElements];
+      const playing = elements.find(element => !element.paused);
+      if (playing) return playing;
+      if (main) return main;
+      if (lastActiveElement && audioElements.has(lastActiveElement)) return lastActiveElement;
+      return elements[0];
+    }
+
+    // play/pause/toggle, returns how many elements and contexts were changed
+    function setPlayback(action: PlaybackAction) {
+      const playing = [...audioElements].filter(element => !element.paused);
+      const playingContexts = activeContexts().filter(isContextPlaying);
+      const isPlaying = playing.length > 0 || playingContexts.length > 0;
+      const shouldPlay = action === 'play' || (action === 'toggle' && !isPlaying);
+      // sites that keep their own player state want their own button pressed, when it's there
+      if (shouldPlay !== isPlaying && siteAdapter?.togglePlayback?.()) return 1;
+
+      if (!shouldPlay) {
+        playing.forEach(element => element.pause());
+        playingContexts.forEach(context => {
+          suspendedByUs.add(context.contextId);
+          sendWebAudioCommand({ contextId: context.contextId, playback: 'pause' });
+        });
+        return playing.length + playingContexts.length;
+      }
+      // a context the page suspended itself (a game in its menu) is the page's business, only ours are resumed
+      const resumed = [...suspendedByUs].filter(contextId => webAudioContexts.has(contextId));
+      resumed.forEach(contextId => sendWebAudioCommand({ contextId, playback: 'play' }));
+      suspendedByUs.clear();
+      const element = transportElement();
+      if (!element) return resumed.length;
+      // play() rejects when the page never had a user gesture (autoplay policy), nothing we can do about that here
+      element.play().catch(err => console.log('Content Script: play() was rejected:', err));
+      return 1 + resumed.length;
+    }
+
+    // the sleep timer went off: every playing element and context fades to silence over `seconds` and pauses,
+    // then gets its sound back so the next play isn't silent. returns how many are fading
+    function fadeOutAndPause(seconds: number) {
+      const elements = [...audioElements].filter(element => !element.paused);
+      const contexts = activeContexts().filter(isContextPlaying);
+      elements.forEach(element => {
+        const volume = elementVolume(element);
+        const muted = volumeRamps.get(element)?.muted ?? element.muted;
+        rampElement(element, volume, true, seconds * 1000, () => {
+          element.pause();
+          element.muted = muted;
+        });
+      });
+      contexts.forEach(context => {
+        const { contextId, muted } = context;
+        cancelContextFade(contextId);
+        // in the map before the command goes out, the hooks report back right away and that's no change of the user's
+        contextFades.set(contextId, setTimeout(() => {
+          contextFades.delete(contextId);
+          suspendedByUs.add(contextId);
+          sendWebAudioCommand({ contextId, playback: 'pause' });
+          sendWebAudioCommand({ contextId, muted });
+        }, seconds * 1000));
+        sendWebAudioCommand({ contextId, muted: true, rampMs: seconds * 1000 });
+      });
+      return elements.length + contexts.length;
+    }
+
+    // a volume or mute command for a context the sleep timer is fading takes over, it isn't paused after all
+    function cancelContextFade(contextId: number) {
+      clearTimeout(contextFades.get(contextId));
+      contextFades.delete(contextId);
+    }
+
+    function seek(mode: SeekMode, position: number) {
+      const element = transportElement();
+      if (!element) return 0;
+      const target = mode === 'absolute' ? position : element.currentTime + position;
+      // live streams report an infinite duration, only clamp the upper end when we know it
+      const end = Number.isFinite(element.duration) ? element.duration : Infinity;
+      element.currentTime = Math.min(Math.max(target, 0), end);
+      return 1;
+    }
+
+    function setPlaybackRate(rate: number) {
+      audioElements.forEach(element => {
+        element.playbackRate = Math.min(Math.max(rate, 0.0625), 16); // the range browsers accept without throwing
+      });
+      return audioElements.size;
+    }
+
+    // next/previous only mean something when the page has a playlist, which it tells us by registering media session handlers
+    // (the hooks run them, see entrypoints/media-hooks.content.ts). returns null when the page has no way to skip
+    function skipTrack(direction: TrackDirection) {
+      if (siteAdapter?.skipTrack?.(direction)) return 1;
+      if (runMediaSessionAction(direction === 'next' ? 'nexttrack' : 'previoustrack')) {
+        return 1;
+      }
+      // without a handler 'previous' still has an obvious meaning: back to the start of the current track
+      if (direction === 'previous') {
+        return seek('absolute', 0);
+      }
+      return null;
+    }
+
+    // CONTENT SCRIPT: Receive volume control commands FROM popup/background
+    // if the message was sent via browser.tabs.sendMessage then Browser already routed this message to the specific tab we provided sendMessage 
+    // but if the message was sent via browser.runtime.sendMessage then wa have data that we can access all over the extension
+    browser.runtime.onMessage.addListener((message, sender, sendResponse) =>{
+      let affected: number;
+      // these are popup ui messages so we are already in the correct tab so we just loop through the elemets inside it
+      if((message.type === 'UI_VOLUME_CHANGE' || message.type === 'TAURI_VOLUME_CHANGED' || message.type === 'UI_MUTE_SET' || message.type === 'TAURI_MUTE_CHANGED')
+        && message.streamId !== undefined && commandTargets(message.streamId).length === 0 && contextTargets(message.streamId).length === 0) {
+        sendResponse({ affected: 0, error: 'STREAM_NOT_FOUND', state: null } satisfies TabCommandResult);
+        return;
       }
+
+      if(message.type === 'UI_VOLUME_CHANGE' || message.type === 'TAURI_VOLUME_CHANGED') {
+        affected = setTabVolume(message.volume, message.streamId, message.rampMs, message.transient); // streamId is optional, without it the whole tab changes
+      }else if(message.type === 'UI_MUTE_SET' || message.type === 'TAURI_MUTE_CHANGED') {
+        affected = setTabMuted(message.isMuted, message.initialVolume, message.streamId, message.rampMs, message.transient);
+      }else if(message.type === 'LEVELS_SUBSCRIPTION') {
+        meteringWanted = message.enabled;
+        updateMetering();
+        return;
+      }else if(message.type === 'MEDIA_PLAYBACK') { // transport messages come from both the popup and the desktop app
+        affected = setPlayback(message.action);
+      }else if(message.type === 'MEDIA_SEEK') {
+        affected = seek(message.mode, message.position);
+      }else if(message.type === 'MEDIA_PLAYBACK_RATE') {
+        affected = setPlaybackRate(message.rate);
+      }else if(message.type === 'UI_EFFECTS_SET' || message.type === 'TAURI_EFFECTS_CHANGED') {
+        affected = applyEffects(message.effects);
+        if (hasSentInitialState) {
+          updateAudioStatus(lastState.type); // nothing on the page fires an event for this, report the new effects ourselves
+        }
+      }else if(message.type === 'SLEEP_FADE_OUT') {
+        affected = fadeOutAndPause(message.seconds);
+      }else if(message.type === 'MEDIA_SKIP_TRACK') {
+        const skipped = skipTrack(message.direction);
+        if (skipped === null) {
+          sendResponse({ affected: 0, error: 'NOT_SUPPORTED', state: null } satisfies TabCommandResult);
+          return;
+        }
+        affected = skipped;
+      }else {
+        return; // not a command for us, let other listeners answer
+      }
+
+      // answer the sender with how many elements we actually touched and the state they ended up in
+      // so the background can tell the desktop app whether the command did anything
+      const context = representativeContext();
+      const element = representativeElement();
+      const result: TabCommandResult = {
+        affected,
+        state: context ? {volume: context.volume, isMuted: context.muted || context.volume === 0, paused: !isContextPlaying(context)}
+          : element ? {volume: elementVolume(element), isMuted: elementMuted(element), paused: element.paused} : null,
+      };
+      sendResponse(result);
     })// this volume and mute change will then be detected by addEventListener('volumechange') and fires updateAudioStatus and everything proceeds as normal from there
 
     // function to determine if a tab has any element that is playing audio
     // a tab can have many media elements that can play audio if one of them is playing then the whole tab is playing 
     function checkAnyAudioPlaying() {
       let anyPlaying = false;
-      let currentVolume = 0;
-      let currentMuted = false;
+      let current: StatusData = {};
       audioElements.forEach(element => {       
         if(!element.paused && !element.ended && element.readyState > 0 ) { // if not paused and not ended and audio element is in a state that is loaded so any state bigger than 0
           anyPlaying = true;
-          currentVolume = element.volume; 
-          currentMuted = element.muted || element.volume === 0; // if slider goes to 0 we treat it as muted
+          current = elementState(element); 
         }
       });
+      // an element playing wins, the context stands for the tab only when it's the only thing making sound
+      if (!anyPlaying) {
+        const context = activeContexts().find(isContextPlaying);
+        if (context) {
+          anyPlaying = true;
+          current = contextState(context);
+        }
+      }
       if (anyPlaying) {
         if (isTabPlayingAudio === false) {
           // Audio just started (transition from silent to playing)
           isTabPlayingAudio = true;
-          updateAudioStatus("AUDIO_DETECTED", {muted: currentMuted, volume: currentVolume});
+          updateAudioStatus("AUDIO_DETECTED", current);
         }else {
-          // Already playing but state might have changed (new video in shorts)
-          updateAudioStatus("AUDIO_DETECTED", {muted: currentMuted, volume: currentVolume}); ////////////
+          // Already playing but state might have changed (new video in shorts, next song, position moved on)
+          updateAudioStatus("AUDIO_DETECTED", current); ////////////
         }
       } else {
         if (isTabPlayingAudio === true) {
@@ -126,11 +942,23 @@ export default defineContentScript({
 
 
     function addMediaEventListener(element: HTMLMediaElement) {
+      // the page made a source node for it, the hooks tell us the gain behind it
+      element.addEventListener(ELEMENT_SOURCE_EVENT, event => {
+        if (!pageSourceGains.has(element)) {
+          pageSourceGains.set(element, { gainId: (event as CustomEvent<number>).detail, value: 1 });
+        }
+      });
+
       element.addEventListener('play', () => {
-        const volume = element.volume;
-        const muted = element.muted || element.volume === 0;
+        lastActiveElement = element;
+        if (siteAdapter?.resetsVolume && commandedVolume !== null && !volumeRamps.has(element)) {
+          setElementVolume(element, commandedVolume); // the site started the track at its own volume
+        }
+        if (!isFlat(effects) || isNormalizing()) {
+          routeThroughGain(element); // found before it had a source, or the effects were set before it existed
+        }
         isTabPlayingAudio = true;
-        updateAudioStatus("AUDIO_DETECTED", {muted, volume});
+        updateAudioStatus("AUDIO_DETECTED", elementState(element));
       })
 
       // Send pause event immediately with current state
@@ -141,7 +969,7 @@ export default defineContentScript({
         // So we send AUDIO_PAUSED to indicate this specific element paused
         if (isTabPlayingAudio === false) {
                                         
-          updateAudioStatus("AUDIO_PAUSED", {muted: element.muted || element.volume === 0, volume: element.volume});
+          updateAudioStatus("AUDIO_PAUSED", elementState(element));
         }
       }) 
 
@@ -153,9 +981,7 @@ export default defineContentScript({
       })
       
       element.addEventListener('volumechange', () => {
-        const volume = element.volume;
-        const muted = element.muted || element.volume === 0;
-        updateAudioStatus("VOLUME_CHANGED", {muted, volume});
+        updateAudioStatus("VOLUME_CHANGED", elementState(element));
         console.log("Content Script: Firing state update to background script! from volumechange listener");
         
       })
@@ -164,26 +990,27 @@ export default defineContentScript({
       element.addEventListener('loadedmetadata', () => {
         // When new video loads in shorts, update state immediately
         if (!element.paused && element.readyState > 0) {
-          const volume = element.volume;
-          const muted = element.muted || element.volume === 0;
-          updateAudioStatus("AUDIO_DETECTED", {muted, volume});
+          updateAudioStatus("AUDIO_DETECTED", elementState(element));
         }
       })
 
       // playing event - fires when video actually starts playing after buffering
       element.addEventListener('playing', () => {
-        const volume = element.volume;
-        const muted = element.muted || element.volume === 0;
         isTabPlayingAudio = true;
-        updateAudioStatus("AUDIO_DETECTED", {muted, volume});
+        updateAudioStatus("AUDIO_DETECTED", elementState(element));
       });
 
+      // position/speed jumps that don't change the playing state
+      element.addEventListener('seeked', () => reportMediaChange(element));
+      element.addEventListener('ratechange', () => reportMediaChange(element));
+      element.addEventListener('durationchange', () => reportMediaChange(element));
+      // normal playback progress, positionNeedsReport() throttles it to one report every few seconds
+      element.addEventListener('timeupdate', () => reportMediaChange(element));
+
       // canplay event - fires when video is ready to play
       element.addEventListener('canplay', () => {
         if (!element.paused) {
-          const volume = element.volume;
-          const muted = element.muted || element.volume === 0;
-          updateAudioStatus("AUDIO_DETECTED", {muted, volume});
+          updateAudioStatus("AUDIO_DETECTED", elementState(element));
         }
       });
       
@@ -191,118 +1018,188 @@ export default defineContentScript({
 
 
 
-    // Function to scan for audio/video elements and add them to an array set 
-    function scanForMediaElements() {
-      const mediaElements = document.querySelectorAll('audio, video') as NodeListOf<HTMLMediaElement>;
-      mediaElements.forEach(element => {
-        if(!audioElements.has(element)) {
-          audioElements.add(element);
-          addMediaEventListener(element);
-          // Check if this newly found element is already playing
-          if (!element.paused && element.readyState > 0) {
-            const volume = element.volume;
-            const muted = element.muted || element.volume === 0;
-            isTabPlayingAudio = true;
-            updateAudioStatus("AUDIO_DETECTED", {muted, volume});
-          }
+    // starts tracking an element, wherever it was found: the DOM, a shadow root or the main-world hooks
+    function trackMediaElement(element: HTMLMediaElement) {
+      if (audioElements.has(element) || siteAdapter?.ignoresElement?.(element)) return;
+      audioElements.add(element);
+      addMediaEventListener(element);
+      // Check if this newly found element is already playing
+      if (!element.paused && element.readyState > 0) {
+        isTabPlayingAudio = true;
+        updateAudioStatus("AUDIO_DETECTED", elementState(element));
+      }
+      applySiteRule();
+    }
+
+    // closed shadow roots are only hidden from the page's scripts, the extension API hands them to us as well
+    function shadowRootOf(element: Element) {
+      if (element.shadowRoot) return element.shadowRoot;
+      return element instanceof HTMLElement ? browser.dom?.openOrClosedShadowRoot(element) ?? null : null;
+    }
+
+    // media elements in a subtree, descending into shadow roots (web-component players).
+    // every shadow root found is observed from then on, the document observer doesn't see into them
+    function findMediaElements(root: ParentNode): HTMLMediaElement[] {
+      const found = [...root.querySelectorAll<HTMLMediaElement>('audio, video')];
+      root.querySelectorAll('*').forEach(element => {
+        const shadowRoot = shadowRootOf(element);
+        if (shadowRoot) {
+          observeForMedia(shadowRoot);
+          found.push(...findMediaElements(shadowRoot));
         }
       });
+      return found;
     }
 
+    // everything in a host's shadow root, for an announced element we only got the host of
+    function findShadowMediaElements(host: Element) {
+      const shadowRoot = shadowRootOf(host);
+      if (!shadowRoot) return [];
+      observeForMedia(shadowRoot);
+      return findMediaElements(shadowRoot);
+    }
 
-    // Setup mutation observer for dynamic content
-    // Detect dynamically added media elements
+    // Function to scan for audio/video elements and add them to an array set 
+    function scanForMediaElements() {
+      findMediaElements(document).forEach(trackMediaElement);
+      applySiteRule();
+    }
 
-    function setupMutationObserver() {
-      const observer = new MutationObserver((mutations) => {
-        let shouldScan = false
-        
-        mutations.forEach((mutation) => {
-          if (mutation.addedNodes.length > 0) {
-            // Check if any added nodes contain media elements
-            mutation.addedNodes.forEach(node => {
-              if (node.nodeType === Node.ELEMENT_NODE) {
-                const element = node as Element
-                if (element.tagName === 'AUDIO' || element.tagName === 'VIDEO' || element.querySelector('audio, video')) {
-                  shouldScan = true
-                }
-              }
-            })
+    // applies the best matching site rule the first time this page has media, after that the user is in charge
+    function applySiteRule() {
+      if (siteRuleApplied || siteRules === null || (audioElements.size === 0 && activeContexts().length === 0)) return; // the rules load also calls this
+      siteRuleApplied = true;
+      const rule = findSiteRule(siteRules, location.href);
+      if (!rule) return;
+      console.log('Content Script: applying site rule', rule);
+      if (rule.volume !== undefined) {
+        setTabVolume(rule.volume);
+      }
+      if (rule.muted !== undefined) {
+        setTabMuted(rule.muted);
+      }
+      if (rule.effects) {
+        applyEffects(rule.effects);
+      }
+    }
+
+
+    // Setup mutation observer for dynamic content
+    // Detect dynamically added media elements, only the added subtrees are searched, not the whole document again
+    const mediaObserver = new MutationObserver((mutations) => {
+      mutations.forEach((mutation) => {
+        mutation.addedNodes.forEach(node => {
+          if (node instanceof HTMLMediaElement) {
+            trackMediaElement(node);
+          } else if (node instanceof Element) {
+            findMediaElements(node).forEach(trackMediaElement);
+            findShadowMediaElements(node).forEach(trackMediaElement);
           }
         })
-        
-        if (shouldScan) {
-          // Wait a bit for elements to be fully loaded
-          setTimeout(scanForMediaElements, 300)
-        }
       })
-      
-      observer.observe(document.body, {
+    })
+    const observedRoots = new WeakSet<Node>();
+
+    function observeForMedia(root: Node) {
+      if (observedRoots.has(root)) return;
+      observedRoots.add(root);
+      mediaObserver.observe(root, {
         childList: true,
         subtree: true
       })
     }
 
-    
-    // Periodic check to catch missed elements (helpful for Reddit/dynamic sites)
-    function setupPeriodicCheck() {
-      setInterval(() => {
-        scanForMediaElements();
-        // Always check current playing state for shorts/tiktok
-        if (isTabPlayingAudio === true) {
-          checkAnyAudioPlaying(); // this gets called avery two seconds
-        }
-      }, 2000) // Check every 2 seconds
+    function setupMutationObserver() {
+      observeForMedia(document.documentElement); // documentElement rather than body, about:blank frames may not have one yet
     }
-  
-    
-
-    // This function "intercepts" Web Audio API calls to detect audio usage
-    function hookWebAudioAPI() {
 
-      // Web Audio API has two possible names depending on browser
-      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    // the main-world hooks hand us elements we can't find ourselves: detached `new Audio()` objects,
+    // players in closed shadow roots. whatever they announced before we loaded is replayed on request
+    function listenToMediaHooks() {
+      document.addEventListener(MEDIA_ELEMENT_EVENT, event => {
+        const element = (event as MouseEvent).relatedTarget;
+        if (element instanceof HTMLMediaElement) {
+          trackMediaElement(element);
+        } else if (element instanceof Element) {
+          findShadowMediaElements(element).forEach(trackMediaElement); // the element is somewhere in this host's shadow tree
+        }
+      });
+      document.addEventListener(WEB_AUDIO_STATE_EVENT, event => {
+        handleContextReport(JSON.parse((event as CustomEvent<string>).detail) as WebAudioContextReport);
+      });
+      document.dispatchEvent(new CustomEvent(MEDIA_REPLAY_EVENT));
+    }
 
-      // if we dont find it, exit early 
-      if (!AudioContextClass) {
-        console.log('Web Audio API not supported in this browser')
-        return
+    // what the element listeners do for play/pause/volumechange, for a context
+    function handleContextReport(report: WebAudioContextReport) {
+      const previous = webAudioContexts.get(report.contextId);
+      if (report.state === 'closed') {
+        webAudioContexts.delete(report.contextId);
+        suspendedByUs.delete(report.contextId);
+      } else {
+        webAudioContexts.set(report.contextId, report);
       }
-      // Get the original method we want to intercept
-      // createMediaElementSource() connects HTML <audio>/<video> to Web Audio processing
-      const originalCreateMediaElementSource = AudioContextClass.prototype.createMediaElementSource;
-
-      // If this method doesn't exist, exit 
-      if (!originalCreateMediaElementSource) {
-        console.log('createMediaElementSource method not found')
-        return
+      // a context created after the effects were set. it's in the map already, so the report
+      // the hooks answer with right away doesn't send them a second time
+      if (!previous && report.state !== 'closed' && !isFlat(effects)) {
+        sendWebAudioCommand({ contextId: report.contextId, effects });
       }
+      if (!report.hasInput) return; // not a stream (yet)
 
-      // STEP 3: Replace the original method with our custom version
-      // This is called "monkey patching" - modifying existing browser APIs
-      AudioContextClass.prototype.createMediaElementSource = function(mediaElement: HTMLMediaElement) {
-
-        // Add this element to our tracking
-        // This element might not have been found by our regular DOM scanning
-        // because it was created dynamically or is hidden
-        if(!audioElements.has(mediaElement)) {
-          audioElements.add(mediaElement);
-          addMediaEventListener(mediaElement); // Add the same event listeners we add to regular elements
-        }else {
-          console.log('   - Element already being tracked');
+      if (isContextPlaying(report) !== (previous !== undefined && isContextPlaying(previous))) {
+        if (isContextPlaying(report)) suspendedByUs.delete(report.contextId); // the page resumed it on its own
+        checkAnyAudioPlaying();
+        if (isTabPlayingAudio === false && report.state === 'suspended') {
+          updateAudioStatus("AUDIO_PAUSED", contextState(report));
         }
-
-        // STEP 5: Call the original method and return its result
-        // IMPORTANT: We must call the original method so the Web Audio API still works!
-        // We're just "spying" on the call, not breaking it
-        const result = originalCreateMediaElementSource.call(this, mediaElement);
-        return result
-      }       
-    
+      } else if (!contextFades.has(report.contextId) && previous && (previous.volume !== report.volume || previous.muted !== report.muted)) {
+        updateAudioStatus("VOLUME_CHANGED", contextState(report));
+      }
+      applySiteRule();
     }
+  
     
+
+    // the background drops this frame's state when it goes away, so a closed embed doesn't keep the tab "playing".
+    // a page restored from the back/forward cache starts over as if nothing had been reported yet
+    window.addEventListener('pagehide', () => {
+      browser.runtime.sendMessage({ type: 'FRAME_UNLOADED' }).catch(() => {
+        // the extension was reloaded, nobody to tell
+      });
+    });
+    window.addEventListener('pageshow', event => {
+      if (!event.persisted) return;
+      hasSentInitialState = false;
+      isTabPlayingAudio = false;
+      checkAnyAudioPlaying();
+    });
+
     // Initialize
-    hookWebAudioAPI();
+    siteRulesStorage.getValue().then(rules => {
+      siteRules = rules;
+      applySiteRule(); // media may have been found before the rules finished loading
+      updateNormalizer();
+    });
+    siteRulesStorage.watch(rules => {
+      siteRules = rules ?? [];
+      updateNormalizer(); // the rule may have switched normalization for this site
+    });
+    loadNormalizationSettings().then(settings => {
+      normalizationSettings = settings;
+      updateNormalizer();
+    });
+    normalizationSettingsStorage.watch(settings => {
+      normalizationSettings = { ...DEFAULT_NORMALIZATION_SETTINGS, ...settings };
+      updateNormalizer();
+    });
+    if (siteAdapter) {
+      loadSiteAdapterSettings().then(settings => {
+        siteAdapterSettings = settings;
+      });
+      siteAdapterSettingsStorage.watch(settings => {
+        siteAdapterSettings = { ...DEFAULT_SITE_ADAPTER_SETTINGS, ...settings };
+      });
+    }
     
     // Initial scan after a short delay to ensure DOM is ready
     setTimeout(() => {
@@ -310,8 +1207,8 @@ export default defineContentScript({
     }, 500);
     
     setupMutationObserver();
-    
-    setupPeriodicCheck();
+
+    listenToMediaHooks();
 
 
   },
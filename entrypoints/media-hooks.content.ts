@@ -0,0 +1,311 @@
+/**
+ * MEDIA HOOKS (runs once per frame in the page's main world, next to the page's own scripts)
+ * - Catches media the isolated content script can't find in the DOM: `new Audio()` objects that are never attached
+ *   (notification sounds, games, music apps) and players inside closed shadow roots
+ * - Hooks the Audio constructor and HTMLMediaElement.prototype.play, every element created or started that way is
+ *   handed to the content script, see utils/media-bridge.ts
+ * - Wraps every AudioContext the page creates: whatever the page connects to the context's destination goes through
+ *   a master gain of ours instead, the content script reports the context as a stream and controls that gain
+ *   and meters it while someone watches the levels
+ * - Puts a gain behind every source node the page creates for an element, the content script boosts the element
+ *   above 100% with it
+ * - Keeps the media session action handlers the page registers, the content script runs them for next/previous
+ * - Calls the player APIs sites put on their player elements for the site adapters, see utils/site-adapters
+ * - Runs at document_start so the hooks are in place before any page script
+ */
+
+import {
+  ELEMENT_GAIN_EVENT,
+  MEDIA_REPLAY_EVENT,
+  MEDIA_SESSION_ACTION_EVENT,
+  PAGE_PLAYER_CALL_EVENT,
+  WEB_AUDIO_COMMAND_EVENT,
+  WEB_AUDIO_LEVELS_EVENT,
+  WEB_AUDIO_LEVELS_REQUEST_EVENT,
+  announceMediaElement,
+  reportWebAudioContext,
+  type ElementGainCommand,
+  type PagePlayerCall,
+  type WebAudioCommand,
+  type WebAudioLevels,
+} from '@/utils/media-bridge';
+import { wireEffectChain } from '@/utils/sound-effects';
+
+interface HookedContext {
+  id: number;
+  context: AudioContext;
+  master: GainNode; // sits between the page's graph and the real destination
+  effectNodes: AudioNode[]; // the tab's equalizer/compressor between the master and the destination
+  analyser: AnalyserNode | null; // on the master while the content script meters
+  volume: number;
+  muted: boolean;
+  hasInput: boolean;
+  hasElementSource: boolean;
+}
+
+export default defineContentScript({
+  matches: ['<all_urls>'],
+  allFrames: true,
+  matchAboutBlank: true,
+  world: 'MAIN',
+  runAt: 'document_start',
+
+  main() {
+    // everything announced so far, replayed for the content script that loads after us.
+    // weak so a game creating hundreds of sound effects doesn't keep them alive
+    const announced: WeakRef<HTMLMediaElement>[] = [];
+    const seen = new WeakSet<HTMLMediaElement>();
+    // the gains behind the page's source nodes, by the id the content script knows them under
+    const elementGains = new Map<number, GainNode>();
+    const elementGainIds = new WeakMap<HTMLMediaElement, number>();
+    let nextElementGainId = 1;
+
+    function announce(element: HTMLMediaElement) {
+      if (!seen.has(element)) {
+        seen.add(element);
+        announced.push(new WeakRef(element));
+      }
+      announceMediaElement(element, elementGainIds.get(element));
+    }
+
+    const originalPlay = HTMLMediaElement.prototype.play;
+    HTMLMediaElement.prototype.play = function(this: HTMLMediaElement) {
+      announce(this);
+      return originalPlay.call(this);
+    };
+
+    // a Proxy keeps `new Audio()`, `instanceof Audio` and subclassing working like the original
+    window.Audio = new Proxy(window.Audio, {
+      construct(target, args, newTarget) {
+        const element = Reflect.construct(target, args, newTarget) as HTMLAudioElement;
+        announce(element);
+        return element;
+      },
+    });
+
+    // WEB AUDIO
+    const contexts = new Map<BaseAudioContext, HookedContext>();
+    let nextContextId = 1;
+    const originalConnect = AudioNode.prototype.connect as (this: AudioNode, ...args: any[]) => any;
+    const originalDisconnect = AudioNode.prototype.disconnect as (this: AudioNode, ...args: any[]) => any;
+
+    function reportContext(hooked: HookedContext) {
+      reportWebAudioContext({
+        contextId: hooked.id,
+        state: hooked.context.state,
+        hasInput: hooked.hasInput,
+        hasElementSource: hooked.hasElementSource,
+        volume: hooked.volume,
+        muted: hooked.muted,
+      });
+    }
+
+    // the context's master gain when the node is its destination, so connect/disconnect can be pointed there instead
+    function masterFor(node: AudioNode, destination: unknown) {
+      if (!(destination instanceof AudioDestinationNode)) return undefined;
+      const hooked = contexts.get(destination.context);
+      return hooked && node !== hooked.master ? hooked : undefined;
+    }
+
+    const OriginalAudioContext = window.AudioContext;
+    if (OriginalAudioContext) {
+      // OfflineAudioContext renders into a buffer, not to the speakers, so it's left alone
+      const HookedAudioContext = new Proxy(OriginalAudioContext, {
+        construct(target, args, newTarget) {
+          const context = Reflect.construct(target, args, newTarget) as AudioContext;
+          const master = context.createGain();
+          originalConnect.call(master, context.destination);
+          const hooked: HookedContext = {
+            id: nextContextId++, context, master, effectNodes: [], analyser: null, volume: 1, muted: false, hasInput: false, hasElementSource: false,
+          };
+          contexts.set(context, hooked);
+          context.addEventListener('statechange', () => {
+            reportContext(hooked);
+            if (context.state !== 'closed') return;
+            contexts.delete(context);
+            elementGains.forEach((gain, gainId) => {
+              if (gain.context === context) elementGains.delete(gainId);
+            });
+          });
+          reportContext(hooked);
+          return context;
+        },
+      });
+      window.AudioContext = HookedAudioContext;
+      // older code still uses the prefixed name, in Chrome it's the same constructor
+      if ((window as any).webkitAudioContext === OriginalAudioContext) {
+        (window as any).webkitAudioContext = HookedAudioContext;
+      }
+
+      AudioNode.prototype.connect = function(this: AudioNode, destination: unknown, ...rest: unknown[]) {
+        const hooked = masterFor(this, destination);
+        if (!hooked) return originalConnect.call(this, destination, ...rest);
+        originalConnect.call(this, hooked.master, ...rest);
+        if (!hooked.hasInput) {
+          hooked.hasInput = true;
+          reportContext(hooked);
+        }
+        return destination; // what the page connected to, so chained calls behave as before
+      } as typeof AudioNode.prototype.connect;
+
+      AudioNode.prototype.disconnect = function(this: AudioNode, ...args: unknown[]) {
+        const hooked = masterFor(this, args[0]);
+        if (hooked) args[0] = hooked.master;
+        return originalDisconnect.apply(this, args);
+      } as typeof AudioNode.prototype.disconnect;
+
+      // an element routed into the page's graph is reported as an element too, see contextTargets() in content.ts.
+      // the source is the only one the element can ever have, so its boost comes from a gain we slip in behind it:
+      // whatever the page connects the source to is connected to that gain instead
+      const originalCreateSource = OriginalAudioContext.prototype.createMediaElementSource;
+      OriginalAudioContext.prototype.createMediaElementSource = function(this: AudioContext, element: HTMLMediaElement) {
+        const source = originalCreateSource.call(this, element);
+        const gain = this.createGain();
+        originalConnect.call(source, gain);
+        // the gain has one output, whichever output of the source the page asked for. `input` is only passed on
+        // when given, connect(param, output) with a third argument would pick the AudioNode overload
+        source.connect = function(destination: unknown, _output?: number, ...input: unknown[]) {
+          return (gain.connect as (...args: unknown[]) => unknown)(destination, 0, ...input);
+        } as typeof source.connect;
+        source.disconnect = function(...args: unknown[]) {
+          return (gain.disconnect as (...args: unknown[]) => void)(...args);
+        } as typeof source.disconnect;
+        const gainId = nextElementGainId++;
+        elementGains.set(gainId, gain);
+        elementGainIds.set(element, gainId);
+
+        const hooked = contexts.get(this);
+        if (hooked && !hooked.hasElementSource) {
+          hooked.hasElementSource = true;
+          reportContext(hooked);
+        }
+        announce(element);
+        return source;
+      };
+    }
+
+    document.addEventListener(WEB_AUDIO_COMMAND_EVENT, event => {
+      const command = JSON.parse((event as CustomEvent<string>).detail) as WebAudioCommand;
+      const hooked = [...contexts.values()].find(hooked => hooked.id === command.contextId);
+      if (!hooked) return;
+      if (command.volume !== undefined || command.muted !== undefined) {
+        hooked.volume = command.volume ?? hooked.volume;
+        hooked.muted = command.muted ?? hooked.muted;
+        // a ramp still running is cut off where it got to, the new one starts from there
+        const gain = hooked.master.gain;
+        const now = hooked.context.currentTime;
+        const target = hooked.muted ? 0 : hooked.volume;
+        gain.cancelScheduledValues(now);
+        if (command.rampMs) {
+          gain.setValueAtTime(gain.value, now);
+          gain.linearRampToValueAtTime(target, now + command.rampMs / 1000);
+        } else {
+          gain.value = target;
+        }
+      }
+      if (command.effects) {
+        originalDisconnect.call(hooked.master);
+        hooked.effectNodes.forEach(node => originalDisconnect.call(node));
+        hooked.effectNodes = wireEffectChain(
+          hooked.master, hooked.context.destination, command.effects, (from, to) => originalConnect.call(from, to),
+        );
+        if (hooked.analyser) originalConnect.call(hooked.master, hooked.analyser); // went with the disconnect above
+      }
+      // suspend()/resume() fire 'statechange', which reports the new state
+      if (command.playback === 'pause') {
+        hooked.context.suspend();
+      } else if (command.playback === 'play') {
+        // rejected without a user gesture on the page (autoplay policy), the context just stays suspended
+        hooked.context.resume().catch(() => {});
+      }
+      reportContext(hooked);
+    });
+
+    document.addEventListener(ELEMENT_GAIN_EVENT, event => {
+      const command = JSON.parse((event as CustomEvent<string>).detail) as ElementGainCommand;
+      const gain = elementGains.get(command.gainId);
+      if (gain) gain.gain.value = command.gain;
+    });
+
+    // METERING: the analyser is put on a master the first time it's read, the master already carries everything the
+    // page plays through the context, its own element sources included
+    document.addEventListener(WEB_AUDIO_LEVELS_REQUEST_EVENT, event => {
+      if ((event as CustomEvent<string>).detail === 'stop') {
+        contexts.forEach(hooked => {
+          if (!hooked.analyser) return;
+          originalDisconnect.call(hooked.master, hooked.analyser);
+          hooked.analyser = null;
+        });
+        return;
+      }
+      const levels: WebAudioLevels = { peak: 0, sumSquares: 0, samples: 0 };
+      contexts.forEach(hooked => {
+        if (!hooked.hasInput || hooked.context.state !== 'running') return;
+        if (!hooked.analyser) {
+          hooked.analyser = hooked.context.createAnalyser();
+          hooked.analyser.fftSize = 2048;
+          originalConnect.call(hooked.master, hooked.analyser);
+        }
+        const data = new Float32Array(hooked.analyser.fftSize);
+        hooked.analyser.getFloatTimeDomainData(data);
+        for (const sample of data) {
+          levels.peak = Math.max(levels.peak, Math.abs(sample));
+          levels.sumSquares += sample * sample;
+        }
+        levels.samples += data.length;
+      });
+      document.dispatchEvent(new CustomEvent(WEB_AUDIO_LEVELS_EVENT, { detail: JSON.stringify(levels) }));
+    });
+
+    // MEDIA SESSION
+    const sessionHandlers = new Map<MediaSessionAction, MediaSessionActionHandler>();
+    if ('mediaSession' in navigator) {
+      const originalSetActionHandler = MediaSession.prototype.setActionHandler;
+      MediaSession.prototype.setActionHandler = function(this: MediaSession, action: MediaSessionAction, handler: MediaSessionActionHandler | null) {
+        if (handler) {
+          sessionHandlers.set(action, handler);
+        } else {
+          sessionHandlers.delete(action); // the page removed it, e.g. the last track of the playlist
+        }
+        return originalSetActionHandler.call(this, action, handler);
+      };
+    }
+
+    document.addEventListener(MEDIA_SESSION_ACTION_EVENT, event => {
+      const action = (event as CustomEvent<string>).detail as MediaSessionAction;
+      const handler = sessionHandlers.get(action);
+      if (!handler) return;
+      event.preventDefault(); // tells the content script the page handled it
+      try {
+        handler({ action });
+      } catch (err) {
+        console.error(`Media session handler for ${action} failed:`, err);
+      }
+    });
+
+    // the player may not be there yet or may have changed its API, a call that can't be made is dropped
+    document.addEventListener(PAGE_PLAYER_CALL_EVENT, event => {
+      const call = JSON.parse((event as CustomEvent<string>).detail) as PagePlayerCall;
+      const player = document.querySelector(call.selector) as Record<string, unknown> | null;
+      const method = player?.[call.method];
+      if (typeof method !== 'function') return;
+      try {
+        method.apply(player, call.args);
+      } catch (err) {
+        console.error(`Page player ${call.selector}.${call.method}() failed:`, err);
+      }
+    });
+
+    document.addEventListener(MEDIA_REPLAY_EVENT, () => {
+      for (let i = announced.length - 1; i >= 0; i--) {
+        const element = announced[i].deref();
+        if (element) {
+          announceMediaElement(element, elementGainIds.get(element));
+        } else {
+          announced.splice(i, 1); // collected, forget it
+        }
+      }
+      contexts.forEach(reportContext);
+    });
+  },
+});
@@ -0,0 +1,68 @@
+/**
+ * OFFSCREEN SOCKET HOST (only used when the connection settings ask for it)
+ * - Holds the WebSocket to the desktop app, this document isn't suspended along with the service worker
+ * - Forwards every socket event to the background, which wakes the background up if it was suspended
+ * - Does nothing on its own, the background decides when to open, send and close, see utils/desktop-socket.ts
+ */
+
+import { browser } from 'wxt/browser';
+import type { OffscreenSocketCommand, OffscreenSocketEvent, OffscreenSocketStatus } from '@/utils/desktop-socket';
+
+let socket: WebSocket | null = null;
+let socketId: string | null = null;
+
+function emit(event: OffscreenSocketEvent) {
+  browser.runtime.sendMessage(event).catch(err => {
+    console.error('Offscreen socket: failed to reach the background:', err);
+  });
+}
+
+function open(id: string, url: string) {
+  close();
+  socketId = id;
+  socket = new WebSocket(url);
+  const base = { target: 'background', type: 'SOCKET_EVENT', socketId: id } as const;
+  socket.onopen = () => emit({ ...base, event: 'open' });
+  socket.onmessage = event => emit({ ...base, event: 'message', data: event.data });
+  socket.onerror = () => emit({ ...base, event: 'error' });
+  socket.onclose = event => {
+    if (socketId === id) {
+      socket = null;
+      socketId = null;
+    }
+    emit({ ...base, event: 'close', code: event.code, reason: event.reason });
+  };
+}
+
+function close(code?: number, reason?: string) {
+  socket?.close(code, reason);
+  socket = null;
+  socketId = null;
+}
+
+browser.runtime.onMessage.addListener((message: OffscreenSocketCommand, _sender, sendResponse) => {
+  if (message?.target !== 'offscreen') return;
+
+  switch (message.type) {
+    case 'SOCKET_OPEN':
+      open(message.socketId, message.url);
+      break;
+
+    case 'SOCKET_SEND':
+      // a message for a socket we already replaced goes nowhere
+      if (message.socketId === socketId && socket?.readyState === WebSocket.OPEN) {
+        socket.send(message.data);
+      }
+      break;
+
+    case 'SOCKET_CLOSE':
+      if (message.socketId === socketId) close(message.code, message.reason);
+      break;
+
+    case 'SOCKET_STATUS': {
+      const status: OffscreenSocketStatus = { socketId, readyState: socket?.readyState ?? WebSocket.CLOSED };
+      sendResponse(status);
+      break;
+    }
+  }
+});
@@ -0,0 +1,96 @@
+/**
+ * CONNECTION SETTINGS (where the desktop app listens and how we prove we belong together)
+ * - Endpoint and pairing token are edited on the options page and stored in 'local:connectionSettings'
+ * - The background watches the item and reconnects whenever it changes
+ * - Pairing: the desktop app shows a token, the user pastes it into the options page. The token itself never goes
+ *   over the socket, both sides prove they know it by signing the other side's random nonce with HMAC-SHA256:
+ *   our HELLO carries our nonce, the desktop's HELLO its nonce and its proof for ours, our AUTH our proof for both
+ */
+
+import { storage } from 'wxt/utils/storage';
+import type { SocketHost } from '@/utils/desktop-socket';
+
+export interface ConnectionSettings {
+  host: string;
+  port: number;
+  secure: boolean; // wss:// instead of ws://, for a desktop app that isn't on this machine
+  pairingToken: string; // '' until the user paired, the desktop app can't control anything before that
+  socketHost: SocketHost; // where the socket lives, 'offscreen' survives the service worker being suspended
+}
+
+// UNAUTHENTICATED: the desktop app answered but couldn't prove it knows the pairing token
+export type ConnectionStatus = 'DISCONNECTED' | 'CONNECTING' | 'CONNECTED' | 'RECONNECTING' | 'UNAUTHENTICATED';
+
+// everything the popup's diagnostics panel shows, the background sends it to the popup whenever any of it changes
+export interface ConnectionDiagnostics {
+  status: ConnectionStatus;
+  endpoint: string;
+  socketHost: SocketHost;
+  reconnectAttempts: number;
+  nextRetryAt: number | null; // when the next automatic attempt is due, null when none is pending
+  lastClose: { code: number; reason: string; at: number } | null;
+  latencyMs: number | null; // round trip of the last PING/PONG, null until one came back
+  manuallyDisconnected: boolean; // the user pressed "Disconnect", nothing reconnects until they say so
+}
+
+export const DEFAULT_CONNECTION_SETTINGS: ConnectionSettings = {
+  host: '127.0.0.1',
+  port: 8080,
+  secure: false,
+  pairingToken: '',
+  socketHost: 'worker',
+};
+
+export const connectionSettingsStorage = storage.defineItem<ConnectionSettings>(
+  'local:connectionSettings',
+  { defaultValue: DEFAULT_CONNECTION_SETTINGS }
+);
+
+// settings saved before a field existed don't have it, the defaults fill the gaps
+export async function loadConnectionSettings(): Promise<ConnectionSettings> {
+  return { ...DEFAULT_CONNECTION_SETTINGS, ...await connectionSettingsStorage.getValue() };
+}
+
+export function endpointUrl(settings: ConnectionSettings) {
+  return `${settings.secure ? 'wss' : 'ws'}://${settings.host}:${settings.port}`;
+}
+
+// returns what's wrong with the settings, or null when they're usable
+export function validateConnectionSettings(settings: ConnectionSettings) {
+  if (!/^[a-zA-Z0-9.\-:[\]]+$/.test(settings.host)) {
+    return 'Host must be a hostname or an IP address';
+  }
+  if (!Number.isInteger(settings.port) || settings.port < 1 || settings.port > 65535) {
+    return 'Port must be a number between 1 and 65535';
+  }
+  return null;
+}
+
+function toHex(bytes: ArrayBuffer) {
+  return [...new Uint8Array(bytes)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function createNonce() {
+  return toHex(crypto.getRandomValues(new Uint8Array(16)).buffer);
+}
+
+// HMAC-SHA256 of `message` keyed with the pairing token, hex encoded
+export async function signWithToken(token: string, message: string) {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(token), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+}
+
+// what each side signs, prefixed so one side's proof can never be replayed as the other side's.
+// ours covers the desktop's fresh nonce, a recorded AUTH is worthless on the next connection
+export const extensionProofMessage = (desktopNonce: string, extensionNonce: string) => `extension:${desktopNonce}:${extensionNonce}`;
+export const desktopProofMessage = (nonce: string) => `desktop:${nonce}`;
+
+// compares two proofs without bailing out at the first difference, so the time it takes gives nothing away
+export function proofsEqual(a: string, b: string) {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+}
@@ -0,0 +1,206 @@
+/**
+ * DESKTOP SOCKET (the WebSocket to the desktop app, hosted where the connection settings say)
+ * - 'worker': a plain WebSocket in the background service worker. Chrome keeps the worker alive while the socket
+ *   is busy (our 20s ping), but the socket still dies whenever Chrome suspends or restarts the worker
+ * - 'offscreen': the socket lives in an offscreen document and the background drives it through runtime messages.
+ *   The document outlives the worker, and its messages wake a suspended worker up, so desktop commands still arrive
+ * - Both look like the part of WebSocket the background uses, the connection code doesn't care which one it has
+ */
+
+import { browser } from 'wxt/browser';
+
+export type SocketHost = 'worker' | 'offscreen';
+
+export interface DesktopSocket {
+  readonly id: string;
+  readonly readyState: number; // WebSocket.CONNECTING / OPEN / CLOSING / CLOSED
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  onopen: (() => void) | null;
+  onclose: ((event: { code: number; reason: string }) => void) | null;
+  onerror: (() => void) | null;
+  onmessage: ((event: { data: string }) => void) | null;
+}
+
+// background -> offscreen document
+export type OffscreenSocketCommand =
+  | { target: 'offscreen'; type: 'SOCKET_OPEN'; socketId: string; url: string }
+  | { target: 'offscreen'; type: 'SOCKET_SEND'; socketId: string; data: string }
+  | { target: 'offscreen'; type: 'SOCKET_CLOSE'; socketId: string; code?: number; reason?: string }
+  | { target: 'offscreen'; type: 'SOCKET_STATUS' };
+
+// offscreen document -> background
+export type OffscreenSocketEvent = { target: 'background'; type: 'SOCKET_EVENT'; socketId: string } & (
+  | { event: 'open' }
+  | { event: 'message'; data: string }
+  | { event: 'close'; code: number; reason: string }
+  | { event: 'error' }
+);
+
+// the answer to SOCKET_STATUS
+export interface OffscreenSocketStatus {
+  socketId: string | null;
+  readyState: number;
+}
+
+const OFFSCREEN_PATH = '/offscreen.html';
+const MAX_UNCLAIMED_EVENTS = 100;
+
+interface OffscreenProxy {
+  socket: DesktopSocket;
+  dispatch(event: OffscreenSocketEvent): void;
+}
+
+const offscreenProxies = new Map<string, OffscreenProxy>();
+// events for a socket nobody adopted yet, e.g. the desktop command that woke the worker up
+let unclaimedEvents: OffscreenSocketEvent[] = [];
+let creatingDocument: Promise<void> | null = null;
+
+function createWorkerSocket(url: string): DesktopSocket {
+  const ws = new WebSocket(url);
+  const socket: DesktopSocket = {
+    id: crypto.randomUUID(),
+    get readyState() {
+      return ws.readyState;
+    },
+    send: data => ws.send(data),
+    close: (code, reason) => ws.close(code, reason),
+    onopen: null,
+    onclose: null,
+    onerror: null,
+    onmessage: null,
+  };
+  ws.onopen = () => socket.onopen?.();
+  ws.onclose = event => socket.onclose?.({ code: event.code, reason: event.reason });
+  ws.onerror = () => socket.onerror?.();
+  ws.onmessage = event => socket.onmessage?.({ data: event.data });
+  return socket;
+}
+
+function sendToOffscreen(command: OffscreenSocketCommand) {
+  return browser.runtime.sendMessage(command);
+}
+
+async function hasOffscreenDocument() {
+  const contexts = await browser.runtime.getContexts({
+    contextTypes: ['OFFSCREEN_DOCUMENT'],
+    documentUrls: [browser.runtime.getURL(OFFSCREEN_PATH)],
+  });
+  return contexts.length > 0;
+}
+
+async function ensureOffscreenDocument() {
+  if (await hasOffscreenDocument()) return;
+  // two connects right after each other must not both try to create it, the second would throw
+  creatingDocument ??= browser.offscreen.createDocument({
+    url: OFFSCREEN_PATH,
+    // there is no reason for "hold a WebSocket", WORKERS is the closest fit for a document that only runs script
+    reasons: ['WORKERS'],
+    justification: 'Keeps the connection to the Sound Control Panel desktop app open while the service worker is suspended',
+  }).finally(() => {
+    creatingDocument = null;
+  });
+  await creatingDocument;
+}
+
+function createOffscreenProxy(socketId: string, initialState: number): DesktopSocket {
+  let readyState = initialState;
+  const socket: DesktopSocket = {
+    id: socketId,
+    get readyState() {
+      return readyState;
+    },
+    send(data) {
+      sendToOffscreen({ target: 'offscreen', type: 'SOCKET_SEND', socketId, data }).catch(err => {
+        console.error('Failed to hand a message to the offscreen socket:', err);
+      });
+    },
+    close(code, reason) {
+      if (readyState === WebSocket.CLOSED) return;
+      readyState = WebSocket.CLOSING;
+      sendToOffscreen({ target: 'offscreen', type: 'SOCKET_CLOSE', socketId, code, reason }).catch(() => {
+        // no document, no socket left to close
+      });
+    },
+    onopen: null,
+    onclose: null,
+    onerror: null,
+    onmessage: null,
+  };
+
+  offscreenProxies.set(socketId, {
+    socket,
+    dispatch(event) {
+      switch (event.event) {
+        case 'open':
+          readyState = WebSocket.OPEN;
+          socket.onopen?.();
+          break;
+        case 'message':
+          socket.onmessage?.({ data: event.data });
+          break;
+        case 'error':
+          socket.onerror?.();
+          break;
+        case 'close':
+          readyState = WebSocket.CLOSED;
+          offscreenProxies.delete(socketId);
+          socket.onclose?.({ code: event.code, reason: event.reason });
+          break;
+      }
+    },
+  });
+  return socket;
+}
+
+function createOffscreenSocket(url: string): DesktopSocket {
+  const socket = createOffscreenProxy(crypto.randomUUID(), WebSocket.CONNECTING);
+  ensureOffscreenDocument()
+    .then(() => sendToOffscreen({ target: 'offscreen', type: 'SOCKET_OPEN', socketId: socket.id, url }))
+    .catch(err => {
+      console.error('Failed to open the socket in the offscreen document:', err);
+      // looks like any other failed connection attempt, so the usual backoff takes over
+      offscreenProxies.get(socket.id)?.dispatch({ target: 'background', type: 'SOCKET_EVENT', socketId: socket.id, event: 'close', code: 1006, reason: String(err) });
+    });
+  return socket;
+}
+
+export function openDesktopSocket(url: string, host: SocketHost): DesktopSocket {
+  unclaimedEvents = []; // whatever they belonged to is being replaced
+  return host === 'offscreen' ? createOffscreenSocket(url) : createWorkerSocket(url);
+}
+
+// after the worker restarted: picks the offscreen document's socket back up if it's still the one we opened and still open.
+// resolves with null when there is nothing to adopt and the caller has to connect from scratch
+export async function adoptOffscreenSocket(socketId: string): Promise<DesktopSocket | null> {
+  if (!await hasOffscreenDocument()) return null;
+  let status: OffscreenSocketStatus | undefined;
+  try {
+    status = await sendToOffscreen({ target: 'offscreen', type: 'SOCKET_STATUS' });
+  } catch {
+    return null;
+  }
+  if (status?.socketId !== socketId || status.readyState !== WebSocket.OPEN) return null;
+
+  const socket = createOffscreenProxy(socketId, WebSocket.OPEN);
+  const missed = unclaimedEvents.filter(event => event.socketId === socketId);
+  unclaimedEvents = [];
+  // replayed once the caller had a chance to attach its handlers
+  setTimeout(() => {
+    missed.forEach(event => offscreenProxies.get(socketId)?.dispatch(event));
+  });
+  return socket;
+}
+
+// has to be registered synchronously when the worker starts, otherwise the event that woke it up is lost
+export function listenForOffscreenSocketEvents() {
+  browser.runtime.onMessage.addListener((message: OffscreenSocketEvent) => {
+    if (message?.target !== 'background' || message.type !== 'SOCKET_EVENT') return;
+    const proxy = offscreenProxies.get(message.socketId);
+    if (proxy) {
+      proxy.dispatch(message);
+    } else if (unclaimedEvents.length < MAX_UNCLAIMED_EVENTS) {
+      unclaimedEvents.push(message);
+    }
+  });
+}
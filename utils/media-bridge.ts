@@ -0,0 +1,127 @@
+/**
+ * MEDIA BRIDGE (between the main-world hooks and the isolated content script)
+ * - Both run in the same frame and share the DOM, but nothing else: no variables, no prototypes
+ * - The hooks announce an element by dispatching MEDIA_ELEMENT_EVENT on the document with the element as the
+ *   event's relatedTarget, which reaches the isolated world even for elements that aren't in the DOM.
+ *   for an element in a shadow root the DOM hands the document's listeners the outermost shadow host instead,
+ *   the content script looks into the host's shadow root itself (the extension API opens closed ones too)
+ * - An element the page routes through its own AudioContext can't get a gain node from the content script (one source
+ *   node per element), the hooks put one behind the page's source and the content script sets it by id. the id is
+ *   dispatched on the element itself, the content script listens there since it can't tell which element a host stood for
+ * - The isolated script loads later than the hooks, MEDIA_REPLAY_EVENT asks the hooks to announce everything again
+ * - Web Audio contexts can't be handed over like elements (they aren't DOM nodes), they're described and
+ *   controlled through JSON messages instead
+ */
+
+import type { SoundEffects } from '@/utils/sound-effects';
+
+export const MEDIA_ELEMENT_EVENT = 'sound-control-panel:media-element';
+export const MEDIA_REPLAY_EVENT = 'sound-control-panel:media-replay';
+
+export const ELEMENT_SOURCE_EVENT = 'sound-control-panel:element-source';
+
+// gainId is the hooks' gain behind the page's source node for the element, 0 while the page didn't create one
+export function announceMediaElement(element: HTMLMediaElement, gainId = 0) {
+  document.dispatchEvent(new MouseEvent(MEDIA_ELEMENT_EVENT, { relatedTarget: element }));
+  if (gainId) {
+    // the announcement above made the content script track the element, so its listener is there by now
+    element.dispatchEvent(new CustomEvent(ELEMENT_SOURCE_EVENT, { detail: gainId }));
+  }
+}
+
+// content script -> hooks, the boost above 100% for an element with a page-owned source
+export const ELEMENT_GAIN_EVENT = 'sound-control-panel:element-gain';
+
+export interface ElementGainCommand {
+  gainId: number;
+  gain: number; // >= 1, element.volume does the rest
+}
+
+export function sendElementGainCommand(command: ElementGainCommand) {
+  document.dispatchEvent(new CustomEvent(ELEMENT_GAIN_EVENT, { detail: JSON.stringify(command) }));
+}
+
+// WEB AUDIO: every AudioContext the page creates gets a master gain from the hooks, the content script reports
+// each context as a stream and controls it through that gain. details are JSON strings, objects don't cross worlds
+export const WEB_AUDIO_STATE_EVENT = 'sound-control-panel:web-audio-state';
+export const WEB_AUDIO_COMMAND_EVENT = 'sound-control-panel:web-audio-command';
+
+// hooks -> content script, sent on creation, on every state change and after each command
+export interface WebAudioContextReport {
+  contextId: number;
+  state: AudioContextState; // 'running' | 'suspended' | 'closed'
+  hasInput: boolean; // something was connected to the destination, a context nobody plays through stays unreported
+  hasElementSource: boolean; // the page routes an <audio>/<video> through it, see contextTargets() in content.ts
+  volume: number; // the master gain's value while not muted, 0..MAX_VOLUME
+  muted: boolean;
+}
+
+// content script -> hooks, for one context
+export interface WebAudioCommand {
+  contextId: number;
+  volume?: number;
+  muted?: boolean;
+  rampMs?: number; // how long the master gain takes to get to the new volume/mute, without it it jumps
+  playback?: 'play' | 'pause'; // resume/suspend the context
+  effects?: SoundEffects; // rewires the effect chain between the master gain and the destination
+}
+
+export function sendWebAudioCommand(command: WebAudioCommand) {
+  document.dispatchEvent(new CustomEvent(WEB_AUDIO_COMMAND_EVENT, { detail: JSON.stringify(command) }));
+}
+
+export function reportWebAudioContext(report: WebAudioContextReport) {
+  document.dispatchEvent(new CustomEvent(WEB_AUDIO_STATE_EVENT, { detail: JSON.stringify(report) }));
+}
+
+// METERING: the content script can't reach the page's contexts, so while it meters it asks the hooks for their
+// levels every interval. the hooks read an analyser on each master gain and answer before the dispatch returns
+export const WEB_AUDIO_LEVELS_REQUEST_EVENT = 'sound-control-panel:web-audio-levels-request';
+export const WEB_AUDIO_LEVELS_EVENT = 'sound-control-panel:web-audio-levels';
+
+// sums rather than peak/RMS, so the content script can add its own analysers' samples
+export interface WebAudioLevels {
+  peak: number;
+  sumSquares: number;
+  samples: number;
+}
+
+export function readWebAudioLevels() {
+  let levels: WebAudioLevels | null = null;
+  const receive = (event: Event) => {
+    levels = JSON.parse((event as CustomEvent<string>).detail) as WebAudioLevels;
+  };
+  document.addEventListener(WEB_AUDIO_LEVELS_EVENT, receive);
+  document.dispatchEvent(new CustomEvent(WEB_AUDIO_LEVELS_REQUEST_EVENT, { detail: 'read' }));
+  document.removeEventListener(WEB_AUDIO_LEVELS_EVENT, receive);
+  return levels as WebAudioLevels | null;
+}
+
+// the analysers come off the masters again when nobody watches the meters
+export function stopWebAudioMetering() {
+  document.dispatchEvent(new CustomEvent(WEB_AUDIO_LEVELS_REQUEST_EVENT, { detail: 'stop' }));
+}
+
+// MEDIA SESSION: pages register their next/previous handlers from their own world and the browser gives nobody else
+// a way to trigger them, the hooks keep a copy of each. the hooks cancel the event when the page has a handler for
+// the action, so dispatching it tells right away whether anything happened
+export const MEDIA_SESSION_ACTION_EVENT = 'sound-control-panel:media-session-action';
+
+export function runMediaSessionAction(action: MediaSessionAction) {
+  return !document.dispatchEvent(new CustomEvent(MEDIA_SESSION_ACTION_EVENT, { detail: action, cancelable: true }));
+}
+
+// SITE PLAYERS: some sites put a player API on their player element (YouTube's #movie_player.setVolume()), which
+// only the page's own world can see. site adapters ask the hooks to call it, see utils/site-adapters
+export const PAGE_PLAYER_CALL_EVENT = 'sound-control-panel:page-player-call';
+
+// content script -> hooks, fire and forget
+export interface PagePlayerCall {
+  selector: string; // the element the site put its API on
+  method: string;
+  args: unknown[];
+}
+
+export function callPagePlayer(call: PagePlayerCall) {
+  document.dispatchEvent(new CustomEvent(PAGE_PLAYER_CALL_EVENT, { detail: JSON.stringify(call) }));
+}
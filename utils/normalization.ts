@@ -0,0 +1,42 @@
+/**
+ * LOUDNESS NORMALIZATION (pulls every tab toward the same loudness, opt-in)
+ * - The content script measures the tab's short-term loudness in its gain stage and moves a gain of its own toward
+ *   the target. That gain sits after the user's volume and effects, TabAudioState.volume stays what the user set
+ * - Enabled globally here, a site rule's `normalize` overrides it for its sites, see utils/site-rules.ts
+ * - Edited in the popup and by the desktop app, both see the correction each tab currently applies
+ */
+
+import { storage } from 'wxt/utils/storage';
+
+export interface NormalizationSettings {
+  enabled: boolean;
+  targetLevel: number; // dBFS, K-weighted short-term mean square, roughly LUFS
+  maxCorrection: number; // dB, how far a tab is turned up or down at most
+}
+
+export const DEFAULT_NORMALIZATION_SETTINGS: NormalizationSettings = {
+  enabled: false,
+  targetLevel: -20,
+  maxCorrection: 12,
+};
+
+// the limits the popup and the protocol accept
+export const TARGET_LEVEL_RANGE = { min: -40, max: -6 };
+export const MAX_CORRECTION_RANGE = { min: 0, max: 24 };
+
+// what each frame reports and the tab state carries
+export interface NormalizationState {
+  active: boolean; // normalizing right now, from the global setting or the site rule
+  correctionDb: number; // the gain currently applied on top of the user's volume, in 0.5 dB steps
+}
+
+export const INACTIVE_NORMALIZATION: NormalizationState = { active: false, correctionDb: 0 };
+
+export const normalizationSettingsStorage = storage.defineItem<NormalizationSettings>(
+  'local:normalization',
+  { defaultValue: DEFAULT_NORMALIZATION_SETTINGS }
+);
+
+export async function loadNormalizationSettings(): Promise<NormalizationSettings> {
+  return { ...DEFAULT_NORMALIZATION_SETTINGS, ...await normalizationSettingsStorage.getValue() };
+}
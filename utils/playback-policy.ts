@@ -0,0 +1,38 @@
+/**
+ * PLAYBACK POLICY (what happens to the other tabs when one starts playing)
+ * - Stored in 'local:playbackPolicy', edited in the popup and by the desktop app
+ * - The background applies it, see the policy section in background.ts
+ * - Exempt sites use the site rule patterns and are never paused, ducked or muted by a policy
+ */
+
+import { storage } from 'wxt/utils/storage';
+import { ruleMatchesUrl } from '@/utils/site-rules';
+
+export type PlaybackPolicyMode =
+  | 'off'
+  | 'pause-others' // the tab that starts playing pauses the others, they resume when it stops
+  | 'duck-others' // the others drop to duckLevel of their volume while it plays
+  | 'focused-only'; // only the focused tab is audible, the others are muted until they get focus
+
+export const PLAYBACK_POLICY_MODES: PlaybackPolicyMode[] = ['off', 'pause-others', 'duck-others', 'focused-only'];
+
+export interface PlaybackPolicy {
+  mode: PlaybackPolicyMode;
+  duckLevel: number; // 0..1, a fraction of each ducked tab's own volume
+  exemptions: string[]; // site rule patterns, e.g. 'meet.google.com'
+}
+
+export const DEFAULT_PLAYBACK_POLICY: PlaybackPolicy = {
+  mode: 'off',
+  duckLevel: 0.3,
+  exemptions: [],
+};
+
+export const playbackPolicyStorage = storage.defineItem<PlaybackPolicy>(
+  'local:playbackPolicy',
+  { defaultValue: DEFAULT_PLAYBACK_POLICY }
+);
+
+export function isPolicyExempt(policy: PlaybackPolicy, url: string) {
+  return policy.exemptions.some(pattern => ruleMatchesUrl(pattern, url));
+}
@@ -0,0 +1,128 @@
+/**
+ * PRIVACY (what the desktop app gets to see of the browser)
+ * - Stored in 'local:privacy', edited on the options page
+ * - Only the desktop feed is filtered, the popup is part of the browser and keeps showing everything
+ * - The background runs every tab through desktopViewOf() before it goes out: tab lists, deltas, ACK/NACK and levels.
+ *   site rules and playback policy exemptions for blocked sites are held back as well, see isPatternBlocked(), and
+ *   the desktop app can't create rules or exemptions that would reach a blocked site, see patternOverlapsBlocked()
+ * - Blocked sites use the same patterns as site rules ('youtube.com' or a glob over the full URL), see utils/site-rules.ts
+ */
+
+import { storage } from 'wxt/utils/storage';
+import { ruleMatchesUrl } from '@/utils/site-rules';
+import type { FrameAudioState, StreamState, TabAudioState } from '@/utils/tab-state';
+
+export interface PrivacySettings {
+  blockedSites: string[]; // tabs on these sites are never reported to the desktop app and it can't control them
+  originOnly: boolean; // send 'https://www.youtube.com' instead of the full URL
+  redactIncognitoTitles: boolean; // incognito tabs go out without their page title and now-playing info
+  reportingPaused: boolean; // the desktop app sees no tabs at all until this is turned off again
+}
+
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  blockedSites: [],
+  originOnly: false,
+  redactIncognitoTitles: true,
+  reportingPaused: false,
+};
+
+// what an incognito tab is called in the desktop app when its title is redacted
+export const REDACTED_TITLE = 'Private tab';
+
+export const privacySettingsStorage = storage.defineItem<PrivacySettings>(
+  'local:privacy',
+  { defaultValue: DEFAULT_PRIVACY_SETTINGS }
+);
+
+export async function loadPrivacySettings(): Promise<PrivacySettings> {
+  return { ...DEFAULT_PRIVACY_SETTINGS, ...await privacySettingsStorage.getValue() };
+}
+
+// a tab counts as on a blocked site when the page or any of its embedded players is
+export function isTabBlocked(settings: PrivacySettings, tab: Pick<TabAudioState, 'tabUrl' | 'frames'>) {
+  const urls = [tab.tabUrl, ...tab.frames.map(frame => frame.frameUrl)].filter(url => url !== '');
+  return settings.blockedSites.some(pattern => urls.some(url => ruleMatchesUrl(pattern, url)));
+}
+
+// whether a site rule's pattern is about a blocked site. a host pattern stands for that host's pages, a glob for the
+// URL it reads as without its wildcards ('https://twitch.tv/*' is about https://twitch.tv/)
+export function isPatternBlocked(settings: PrivacySettings, pattern: string) {
+  const isGlob = pattern.includes('*') || pattern.includes('/');
+  const url = isGlob ? pattern.replace(/\*/g, '') : `https://${pattern}/`;
+  return settings.blockedSites.some(blocked => blocked === pattern || ruleMatchesUrl(blocked, url));
+}
+
+// a glob as tokens: single characters, or a wildcard holding the characters it may stand for
+type GlobToken = string | RegExp;
+const ANY: GlobToken = /[^]/;
+const NAME: GlobToken = /[^/:?#@]/; // within a scheme or a host name
+const DIGIT: GlobToken = /[0-9]/; // within a port
+
+// a pattern as the URL globs it stands for, a host pattern covers the host and its subdomains on any scheme and port
+function globsOf(pattern: string): GlobToken[][] {
+  const lower = pattern.toLowerCase();
+  if (lower.includes('*') || lower.includes('/')) return [[...lower].map(char => char === '*' ? ANY : char)];
+  return [[], [NAME, '.']].flatMap(subdomain => [['/'], [':', DIGIT, '/']].map(port => [
+    NAME, ...'://', ...subdomain, ...lower, ...port, ANY,
+  ]));
+}
+
+// whether some URL matches both globs. a walk over both at once where a wildcard either ends or takes the other
+// glob's next character, or the other wildcard's whole stretch
+function globsIntersect(a: GlobToken[], b: GlobToken[]) {
+  const seen = new Set<number>();
+  const walk = (i: number, j: number): boolean => {
+    const key = i * (b.length + 1) + j;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    if (i === a.length && j === b.length) return true;
+    const x = a[i], y = b[j];
+    if (x instanceof RegExp && (walk(i + 1, j) || (j < b.length && (y instanceof RegExp || x.test(y)) && walk(i, j + 1)))) return true;
+    if (y instanceof RegExp && (walk(i, j + 1) || (i < a.length && (x instanceof RegExp || y.test(x)) && walk(i + 1, j)))) return true;
+    return typeof x === 'string' && x === y && walk(i + 1, j + 1);
+  };
+  return walk(0, 0);
+}
+
+// whether a rule with this pattern could apply to any page of a blocked site, '*' or '*youtube*' included.
+// what the desktop app may create rules for, isPatternBlocked() is only about the rules it gets to see
+export function patternOverlapsBlocked(settings: PrivacySettings, pattern: string) {
+  const globs = globsOf(pattern);
+  return settings.blockedSites.some(blocked => globsOf(blocked).some(b => globs.some(g => globsIntersect(g, b))));
+}
+
+// blob: and filesystem: URLs keep their page's origin, data: and the like have none and are dropped entirely
+function originOf(url: string) {
+  if (url === '') return '';
+  try {
+    const { origin } = new URL(url);
+    return origin === 'null' ? '' : origin;
+  } catch {
+    return '';
+  }
+}
+
+// the tab as the desktop app may see it, null when it may not see it at all
+export function desktopViewOf(settings: PrivacySettings, tab: TabAudioState): TabAudioState | null {
+  if (settings.reportingPaused || isTabBlocked(settings, tab)) return null;
+  const redactTitles = settings.redactIncognitoTitles && tab.incognito;
+  if (!settings.originOnly && !redactTitles) return tab;
+
+  const url = (value: string) => settings.originOnly ? originOf(value) : value;
+  const stream = (value: StreamState): StreamState => ({ ...value, src: url(value.src) });
+  // the now-playing info names the video or song just like the title does. artwork URLs point at exactly that
+  // video's thumbnail, their origin alone would be useless, so they go with originOnly as well
+  const media = <T extends TabAudioState | FrameAudioState>(value: T): T => ({
+    ...value,
+    mediaSrc: url(value.mediaSrc),
+    streams: value.streams.map(stream),
+    ...((redactTitles || settings.originOnly) && { artworkUrl: '' }),
+    ...(redactTitles && { mediaTitle: '', mediaArtist: '', mediaAlbum: '' }),
+  });
+  return {
+    ...media(tab),
+    tabUrl: url(tab.tabUrl),
+    tabTitle: redactTitles ? REDACTED_TITLE : tab.tabTitle,
+    frames: tab.frames.map(frame => ({ ...media(frame), frameUrl: url(frame.frameUrl) })),
+  };
+}
@@ -0,0 +1,510 @@
+/**
+ * WEBSOCKET PROTOCOL (shared between background and anything else talking to the desktop app)
+ * - Typed messages for both directions of the socket
+ * - HELLO handshake that exchanges protocol version and capabilities
+ * - Runtime validation of everything the desktop app sends us
+ */
+
+import type { AudioLevels, PlaybackAction, SeekMode, TabAudioState, TrackDirection } from '@/utils/tab-state';
+import type { SiteRule } from '@/utils/site-rules';
+import { PLAYBACK_POLICY_MODES, type PlaybackPolicy } from '@/utils/playback-policy';
+import { EQ_BANDS, SOUND_PRESETS, type SoundEffects } from '@/utils/sound-effects';
+import { MAX_CORRECTION_RANGE, TARGET_LEVEL_RANGE, type NormalizationSettings } from '@/utils/normalization';
+import { MAX_FADE_SECONDS } from '@/utils/sleep-timer';
+import { MAX_RAMP_MS } from '@/utils/volume';
+
+// bump when a message changes shape, the desktop app compares it in its HELLO
+export const PROTOCOL_VERSION = 1;
+// oldest desktop protocol we can still talk to
+export const MIN_PROTOCOL_VERSION = 1;
+
+// features this build of the extension supports, sent in our HELLO so the desktop can enable/disable its UI
+export const EXTENSION_CAPABILITIES = ['AUDIO_TABS', 'SET_VOLUME', 'SET_MUTE', 'VOLUME_BOOST', 'COMMAND_ACK', 'TRANSPORT', 'SITE_RULES', 'STREAMS', 'LEVELS', 'PAIRING', 'TAB_DELTAS', 'PLAYBACK_POLICY', 'TAB_MUTE', 'EFFECTS', 'NORMALIZATION', 'SLEEP_TIMER', 'SITE_ADAPTERS'];
+
+export type ProtocolErrorCode =
+  | 'INVALID_JSON'
+  | 'INVALID_MESSAGE'
+  | 'UNKNOWN_TYPE'
+  | 'UNSUPPORTED_VERSION'
+  | 'UNAUTHENTICATED'; // the desktop app didn't prove it knows the pairing token, so we ignore its commands
+
+// why a command could not be applied, sent back in a NACK
+export type NackReason =
+  | 'TAB_NOT_FOUND' // the tab was closed
+  | 'NO_CONTENT_SCRIPT' // the tab can't run our content script (chrome:// pages, the web store, pages loaded before install)
+  | 'NO_MEDIA_ELEMENTS' // the content script is there but found nothing to control
+  | 'NOT_SUPPORTED' // the tab has media but can't do this, e.g. next track without a page playlist
+  | 'STREAM_NOT_FOUND'; // the command targeted a stream the tab doesn't have (anymore)
+
+// the desktop picks the id, we only echo it back so it can match replies to the commands it sent
+export type RequestId = string | number;
+
+export interface HelloMessage {
+  type: 'HELLO';
+  payload: {
+    protocolVersion: number;
+    capabilities: string[];
+    client?: string;
+    // pairing, see utils/connection.ts: our HELLO carries a fresh nonce, the desktop's HELLO must carry its own
+    // fresh nonce and its proof for ours. our proof follows in AUTH
+    nonce?: string;
+    proof?: string;
+  };
+}
+
+export interface ErrorMessage {
+  type: 'ERROR';
+  payload: {
+    code: ProtocolErrorCode;
+    message: string;
+  };
+}
+
+// extension -> desktop
+export type OutboundMessage =
+  | HelloMessage
+  | ErrorMessage
+  // tab states carry siteAdapter, isAd, isLive and the queue position on sites with an adapter ('SITE_ADAPTERS')
+  // the full list on every change, only for desktop apps that didn't announce 'TAB_DELTAS' in their HELLO
+  | { type: 'AUDIO_TABS'; payload: TabAudioState[] }
+  // snapshot + deltas: every message carries the next sequence number, a gap means the desktop app missed
+  // something and should send GET_SNAPSHOT
+  | { type: 'TABS_SNAPSHOT'; seq: number; payload: TabAudioState[] }
+  | { type: 'TAB_ADDED'; seq: number; payload: TabAudioState }
+  | { type: 'TAB_CHANGED'; seq: number; payload: { tabId: number; changes: Partial<TabAudioState> } }
+  | { type: 'TAB_REMOVED'; seq: number; payload: { tabId: number } }
+  | { type: 'PING'; payload: 'ping' }
+  // our answer to the desktop's HELLO, the proof for its nonce and ours. sent right before the tabs
+  | { type: 'AUTH'; payload: { proof: string } }
+  // the full rule list, sent as the reply to every rule request (requestId set) and whenever the rules change (requestId null)
+  | { type: 'SITE_RULES'; requestId: RequestId | null; payload: SiteRule[] }
+  // the current policy, the reply to GET/SET_PLAYBACK_POLICY (requestId set) and sent whenever it changes (requestId null)
+  | { type: 'PLAYBACK_POLICY'; requestId: RequestId | null; payload: PlaybackPolicy }
+  // the global normalization settings, same pattern as PLAYBACK_POLICY. each tab's correction is in its tab state
+  | { type: 'NORMALIZATION'; requestId: RequestId | null; payload: NormalizationSettings }
+  // the running sleep timer or null, the reply to every sleep timer request (requestId set) and sent whenever it's set,
+  // extended, cancelled or has gone off (requestId null). remainingSeconds is as of sending, endsAt is a ms timestamp
+  | { type: 'SLEEP_TIMER'; requestId: RequestId | null; payload: { endsAt: number; fadeSeconds: number; remainingSeconds: number } | null }
+  // ~10 per second while subscribed, one entry per playing tab
+  | { type: 'LEVELS'; payload: AudioLevels[] }
+  | {
+      type: 'ACK';
+      requestId: RequestId | null;
+      payload: { command: TabCommandMessage['type']; affectedElements: number; tab: TabAudioState | null };
+    }
+  | {
+      type: 'NACK';
+      requestId: RequestId | null;
+      payload: { command: TabCommandMessage['type']; reason: NackReason; message: string; tab: TabAudioState | null };
+    };
+
+// desktop commands that target a tab and get an ACK/NACK reply
+export type TabCommandMessage =
+  // streamId is optional, without it the command applies to every element in the tab.
+  // rampMs fades to the new volume/mute state instead of jumping, a command arriving meanwhile takes over from where it got
+  | { type: 'SET_VOLUME'; requestId?: RequestId; payload: { tabId: number; volume: number; streamId?: string; rampMs?: number } }
+  // a whole-tab SET_MUTE on a tab with nothing to mute uses the browser's tab mute instead (TAB_MUTE),
+  // ACKed with 0 affected elements and the tab's tabMutedBy set. unmuting at volume 0 goes back to the volume the
+  // tab had before it was turned down, initialVolume only overrides that
+  | {
+      type: 'SET_MUTE';
+      requestId?: RequestId;
+      payload: { tabId: number; isMuted: boolean; initialVolume?: number; streamId?: string; rampMs?: number };
+    }
+  | { type: 'SET_PLAYBACK'; requestId?: RequestId; payload: { tabId: number; action: PlaybackAction } }
+  | { type: 'SEEK'; requestId?: RequestId; payload: { tabId: number; mode: SeekMode; position: number } }
+  | { type: 'SET_PLAYBACK_RATE'; requestId?: RequestId; payload: { tabId: number; rate: number } }
+  | { type: 'SKIP_TRACK'; requestId?: RequestId; payload: { tabId: number; direction: TrackDirection } }
+  // only the fields it carries change, a preset brings its bands along. saveForSite also stores the result in the
+  // site rule for the tab's host, so it's reapplied next time the site plays something
+  | { type: 'SET_EFFECTS'; requestId?: RequestId; payload: { tabId: number; effects: Partial<SoundEffects>; saveForSite?: boolean } };
+
+// desktop -> extension
+export type InboundMessage =
+  | HelloMessage
+  | ErrorMessage
+  | TabCommandMessage
+  | SiteRuleMessage
+  | PlaybackPolicyMessage
+  | NormalizationMessage
+  | SleepTimerMessage
+  | { type: 'SUBSCRIBE_LEVELS'; payload: { enabled: boolean } }
+  | { type: 'GET_SNAPSHOT' }
+  | { type: 'PONG' };
+
+// desktop requests for managing the per-site rules, each one is answered with SITE_RULES
+export type SiteRuleMessage =
+  | { type: 'LIST_SITE_RULES'; requestId?: RequestId }
+  | {
+      type: 'CREATE_SITE_RULE';
+      requestId?: RequestId;
+      payload: { pattern: string; volume?: number; muted?: boolean; effects?: Partial<SoundEffects>; normalize?: boolean };
+    }
+  | { type: 'DELETE_SITE_RULE'; requestId?: RequestId; payload: { id: string } };
+
+// SET_PLAYBACK_POLICY only changes the fields it carries, both are answered with PLAYBACK_POLICY
+export type PlaybackPolicyMessage =
+  | { type: 'GET_PLAYBACK_POLICY'; requestId?: RequestId }
+  | { type: 'SET_PLAYBACK_POLICY'; requestId?: RequestId; payload: Partial<PlaybackPolicy> };
+
+// SET_NORMALIZATION only changes the fields it carries, both are answered with NORMALIZATION.
+// per site it's a site rule's `normalize`
+export type NormalizationMessage =
+  | { type: 'GET_NORMALIZATION'; requestId?: RequestId }
+  | { type: 'SET_NORMALIZATION'; requestId?: RequestId; payload: Partial<NormalizationSettings> };
+
+// all of them are answered with SLEEP_TIMER. SET replaces a running timer, EXTEND on no timer answers with null
+export type SleepTimerMessage =
+  | { type: 'GET_SLEEP_TIMER'; requestId?: RequestId }
+  | { type: 'SET_SLEEP_TIMER'; requestId?: RequestId; payload: { minutes: number; fadeSeconds?: number } }
+  | { type: 'EXTEND_SLEEP_TIMER'; requestId?: RequestId; payload: { minutes: number } }
+  | { type: 'CANCEL_SLEEP_TIMER'; requestId?: RequestId };
+
+export type ParseResult =
+  | { ok: true; message: InboundMessage }
+  | { ok: false; error: ErrorMessage['payload'] };
+
+export function encodeMessage(message: OutboundMessage) {
+  return JSON.stringify(message);
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isTabId(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isRequestId(value: unknown): value is RequestId {
+  return typeof value === 'string' || isFiniteNumber(value);
+}
+
+function isOptionalStreamId(value: unknown): value is string | undefined {
+  return value === undefined || typeof value === 'string';
+}
+
+function isOptionalRamp(value: unknown): value is number | undefined {
+  return value === undefined || (isFiniteNumber(value) && value >= 0 && value <= MAX_RAMP_MS);
+}
+
+// the fields of a SoundEffects that are there and valid, null when anything is off
+function parseEffects(value: unknown): Partial<SoundEffects> | null {
+  if (!isRecord(value)) return null;
+  if (value.preset !== undefined && !SOUND_PRESETS.includes(value.preset)) return null;
+  if (value.eq !== undefined && (!Array.isArray(value.eq) || value.eq.length !== EQ_BANDS.length || !value.eq.every(isFiniteNumber))) return null;
+  if (value.compressor !== undefined && typeof value.compressor !== 'boolean') return null;
+  return { preset: value.preset, eq: value.eq, compressor: value.compressor };
+}
+
+function invalid(code: ProtocolErrorCode, message: string): ParseResult {
+  return { ok: false, error: { code, message } };
+}
+
+// older desktop builds send `{ setVolume: {...} }` / `{ setMute: {...} }` without a type field,
+// translate them so the rest of the background only deals with typed messages
+function normalizeLegacyMessage(data: Record<string, any>) {
+  if (data.type === undefined && isRecord(data.setVolume)) {
+    return { type: 'SET_VOLUME', payload: data.setVolume };
+  }
+  if (data.type === undefined && isRecord(data.setMute)) {
+    return { type: 'SET_MUTE', payload: data.setMute };
+  }
+  return data;
+}
+
+// validates a raw socket frame, never throws: anything we can't use comes back as an error payload
+// that the caller can send back to the desktop app as an ERROR message
+export function parseInboundMessage(raw: unknown): ParseResult {
+  if (typeof raw !== 'string') {
+    return invalid('INVALID_MESSAGE', 'Expected a text frame');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return invalid('INVALID_JSON', 'Message is not valid JSON');
+  }
+  if (!isRecord(parsed)) {
+    return invalid('INVALID_MESSAGE', 'Message must be a JSON object');
+  }
+
+  const data = normalizeLegacyMessage(parsed);
+  const payload = data.payload;
+  if (data.requestId !== undefined && !isRequestId(data.requestId)) {
+    return invalid('INVALID_MESSAGE', 'requestId must be a string or a number');
+  }
+  const requestId: RequestId | undefined = data.requestId;
+
+  switch (data.type) {
+    case 'HELLO':
+      if (!isRecord(payload) || !Number.isInteger(payload.protocolVersion)) {
+        return invalid('INVALID_MESSAGE', 'HELLO needs an integer payload.protocolVersion');
+      }
+      if (!Array.isArray(payload.capabilities) || !payload.capabilities.every((c: unknown) => typeof c === 'string')) {
+        return invalid('INVALID_MESSAGE', 'HELLO needs a payload.capabilities string array');
+      }
+      if ((payload.nonce !== undefined && typeof payload.nonce !== 'string') || (payload.proof !== undefined && typeof payload.proof !== 'string')) {
+        return invalid('INVALID_MESSAGE', 'HELLO payload.nonce and payload.proof must be strings');
+      }
+      return {
+        ok: true,
+        message: {
+          type: 'HELLO',
+          payload: {
+            protocolVersion: payload.protocolVersion,
+            capabilities: payload.capabilities,
+            client: typeof payload.client === 'string' ? payload.client : undefined,
+            nonce: payload.nonce,
+            proof: payload.proof,
+          },
+        },
+      };
+
+    case 'SET_VOLUME':
+      if (!isRecord(payload) || !isTabId(payload.tabId) || !isFiniteNumber(payload.volume)) {
+        return invalid('INVALID_MESSAGE', 'SET_VOLUME needs payload.tabId and a numeric payload.volume');
+      }
+      if (!isOptionalStreamId(payload.streamId)) {
+        return invalid('INVALID_MESSAGE', 'SET_VOLUME payload.streamId must be a string');
+      }
+      if (!isOptionalRamp(payload.rampMs)) {
+        return invalid('INVALID_MESSAGE', `SET_VOLUME payload.rampMs must be between 0 and ${MAX_RAMP_MS}`);
+      }
+      return {
+        ok: true,
+        message: {
+          type: 'SET_VOLUME',
+          requestId,
+          payload: { tabId: payload.tabId, volume: payload.volume, streamId: payload.streamId, rampMs: payload.rampMs },
+        },
+      };
+
+    case 'SET_MUTE':
+      if (!isRecord(payload) || !isTabId(payload.tabId) || typeof payload.isMuted !== 'boolean') {
+        return invalid('INVALID_MESSAGE', 'SET_MUTE needs payload.tabId and a boolean payload.isMuted');
+      }
+      if (payload.initialVolume != null && !isFiniteNumber(payload.initialVolume)) {
+        return invalid('INVALID_MESSAGE', 'SET_MUTE payload.initialVolume must be a number');
+      }
+      if (!isOptionalStreamId(payload.streamId)) {
+        return invalid('INVALID_MESSAGE', 'SET_MUTE payload.streamId must be a string');
+      }
+      if (!isOptionalRamp(payload.rampMs)) {
+        return invalid('INVALID_MESSAGE', `SET_MUTE payload.rampMs must be between 0 and ${MAX_RAMP_MS}`);
+      }
+      return {
+        ok: true,
+        message: {
+          type: 'SET_MUTE',
+          requestId,
+          payload: {
+            tabId: payload.tabId,
+            isMuted: payload.isMuted,
+            initialVolume: payload.initialVolume ?? undefined,
+            streamId: payload.streamId,
+            rampMs: payload.rampMs,
+          },
+        },
+      };
+
+    case 'SET_PLAYBACK':
+      if (!isRecord(payload) || !isTabId(payload.tabId) || !['play', 'pause', 'toggle'].includes(payload.action)) {
+        return invalid('INVALID_MESSAGE', "SET_PLAYBACK needs payload.tabId and payload.action 'play' | 'pause' | 'toggle'");
+      }
+      return { ok: true, message: { type: 'SET_PLAYBACK', requestId, payload: { tabId: payload.tabId, action: payload.action } } };
+
+    case 'SEEK':
+      if (!isRecord(payload) || !isTabId(payload.tabId) || !['absolute', 'relative'].includes(payload.mode) || !isFiniteNumber(payload.position)) {
+        return invalid('INVALID_MESSAGE', "SEEK needs payload.tabId, payload.mode 'absolute' | 'relative' and a numeric payload.position");
+      }
+      return {
+        ok: true,
+        message: { type: 'SEEK', requestId, payload: { tabId: payload.tabId, mode: payload.mode, position: payload.position } },
+      };
+
+    case 'SET_PLAYBACK_RATE':
+      if (!isRecord(payload) || !isTabId(payload.tabId) || !isFiniteNumber(payload.rate) || payload.rate <= 0) {
+        return invalid('INVALID_MESSAGE', 'SET_PLAYBACK_RATE needs payload.tabId and a positive payload.rate');
+      }
+      return { ok: true, message: { type: 'SET_PLAYBACK_RATE', requestId, payload: { tabId: payload.tabId, rate: payload.rate } } };
+
+    case 'SKIP_TRACK':
+      if (!isRecord(payload) || !isTabId(payload.tabId) || !['next', 'previous'].includes(payload.direction)) {
+        return invalid('INVALID_MESSAGE', "SKIP_TRACK needs payload.tabId and payload.direction 'next' | 'previous'");
+      }
+      return { ok: true, message: { type: 'SKIP_TRACK', requestId, payload: { tabId: payload.tabId, direction: payload.direction } } };
+
+    case 'SET_EFFECTS': {
+      if (!isRecord(payload) || !isTabId(payload.tabId)) {
+        return invalid('INVALID_MESSAGE', 'SET_EFFECTS needs payload.tabId and payload.effects');
+      }
+      const effects = parseEffects(payload.effects);
+      if (!effects) {
+        return invalid(
+          'INVALID_MESSAGE',
+          `SET_EFFECTS payload.effects takes preset ${SOUND_PRESETS.join(' | ')}, eq (${EQ_BANDS.length} numbers in dB) and a boolean compressor`,
+        );
+      }
+      if (payload.saveForSite !== undefined && typeof payload.saveForSite !== 'boolean') {
+        return invalid('INVALID_MESSAGE', 'SET_EFFECTS payload.saveForSite must be a boolean');
+      }
+      return {
+        ok: true,
+        message: { type: 'SET_EFFECTS', requestId, payload: { tabId: payload.tabId, effects, saveForSite: payload.saveForSite } },
+      };
+    }
+
+    case 'LIST_SITE_RULES':
+      return { ok: true, message: { type: 'LIST_SITE_RULES', requestId } };
+
+    case 'CREATE_SITE_RULE':
+      if (!isRecord(payload) || typeof payload.pattern !== 'string' || payload.pattern.trim() === '') {
+        return invalid('INVALID_MESSAGE', 'CREATE_SITE_RULE needs a non-empty payload.pattern');
+      }
+      if (payload.volume !== undefined && !isFiniteNumber(payload.volume)) {
+        return invalid('INVALID_MESSAGE', 'CREATE_SITE_RULE payload.volume must be a number');
+      }
+      if (payload.muted !== undefined && typeof payload.muted !== 'boolean') {
+        return invalid('INVALID_MESSAGE', 'CREATE_SITE_RULE payload.muted must be a boolean');
+      }
+      if (payload.effects !== undefined && !parseEffects(payload.effects)) {
+        return invalid('INVALID_MESSAGE', 'CREATE_SITE_RULE payload.effects must be sound effects like in SET_EFFECTS');
+      }
+      if (payload.normalize !== undefined && typeof payload.normalize !== 'boolean') {
+        return invalid('INVALID_MESSAGE', 'CREATE_SITE_RULE payload.normalize must be a boolean');
+      }
+      if (payload.volume === undefined && payload.muted === undefined && payload.effects === undefined && payload.normalize === undefined) {
+        return invalid('INVALID_MESSAGE', 'CREATE_SITE_RULE needs payload.volume, payload.muted, payload.effects, payload.normalize or a combination');
+      }
+      return {
+        ok: true,
+        message: {
+          type: 'CREATE_SITE_RULE',
+          requestId,
+          payload: {
+            pattern: payload.pattern,
+            volume: payload.volume,
+            muted: payload.muted,
+            effects: payload.effects === undefined ? undefined : parseEffects(payload.effects) ?? undefined,
+            normalize: payload.normalize,
+          },
+        },
+      };
+
+    case 'DELETE_SITE_RULE':
+      if (!isRecord(payload) || typeof payload.id !== 'string') {
+        return invalid('INVALID_MESSAGE', 'DELETE_SITE_RULE needs a payload.id string');
+      }
+      return { ok: true, message: { type: 'DELETE_SITE_RULE', requestId, payload: { id: payload.id } } };
+
+    case 'GET_PLAYBACK_POLICY':
+      return { ok: true, message: { type: 'GET_PLAYBACK_POLICY', requestId } };
+
+    case 'SET_PLAYBACK_POLICY':
+      if (!isRecord(payload)) {
+        return invalid('INVALID_MESSAGE', 'SET_PLAYBACK_POLICY needs a payload object');
+      }
+      if (payload.mode !== undefined && !PLAYBACK_POLICY_MODES.includes(payload.mode)) {
+        return invalid('INVALID_MESSAGE', `SET_PLAYBACK_POLICY payload.mode must be one of ${PLAYBACK_POLICY_MODES.join(' | ')}`);
+      }
+      if (payload.duckLevel !== undefined && (!isFiniteNumber(payload.duckLevel) || payload.duckLevel < 0 || payload.duckLevel > 1)) {
+        return invalid('INVALID_MESSAGE', 'SET_PLAYBACK_POLICY payload.duckLevel must be a number between 0 and 1');
+      }
+      if (payload.exemptions !== undefined && (!Array.isArray(payload.exemptions) || !payload.exemptions.every((e: unknown) => typeof e === 'string'))) {
+        return invalid('INVALID_MESSAGE', 'SET_PLAYBACK_POLICY payload.exemptions must be a string array');
+      }
+      return {
+        ok: true,
+        message: {
+          type: 'SET_PLAYBACK_POLICY',
+          requestId,
+          payload: { mode: payload.mode, duckLevel: payload.duckLevel, exemptions: payload.exemptions },
+        },
+      };
+
+    case 'GET_NORMALIZATION':
+      return { ok: true, message: { type: 'GET_NORMALIZATION', requestId } };
+
+    case 'SET_NORMALIZATION':
+      if (!isRecord(payload)) {
+        return invalid('INVALID_MESSAGE', 'SET_NORMALIZATION needs a payload object');
+      }
+      if (payload.enabled !== undefined && typeof payload.enabled !== 'boolean') {
+        return invalid('INVALID_MESSAGE', 'SET_NORMALIZATION payload.enabled must be a boolean');
+      }
+      if (payload.targetLevel !== undefined && (!isFiniteNumber(payload.targetLevel) ||
+        payload.targetLevel < TARGET_LEVEL_RANGE.min || payload.targetLevel > TARGET_LEVEL_RANGE.max)) {
+        return invalid('INVALID_MESSAGE', `SET_NORMALIZATION payload.targetLevel must be between ${TARGET_LEVEL_RANGE.min} and ${TARGET_LEVEL_RANGE.max} dB`);
+      }
+      if (payload.maxCorrection !== undefined && (!isFiniteNumber(payload.maxCorrection) ||
+        payload.maxCorrection < MAX_CORRECTION_RANGE.min || payload.maxCorrection > MAX_CORRECTION_RANGE.max)) {
+        return invalid('INVALID_MESSAGE', `SET_NORMALIZATION payload.maxCorrection must be between ${MAX_CORRECTION_RANGE.min} and ${MAX_CORRECTION_RANGE.max} dB`);
+      }
+      return {
+        ok: true,
+        message: {
+          type: 'SET_NORMALIZATION',
+          requestId,
+          payload: { enabled: payload.enabled, targetLevel: payload.targetLevel, maxCorrection: payload.maxCorrection },
+        },
+      };
+
+    case 'GET_SLEEP_TIMER':
+      return { ok: true, message: { type: 'GET_SLEEP_TIMER', requestId } };
+
+    case 'SET_SLEEP_TIMER':
+      if (!isRecord(payload) || !isFiniteNumber(payload.minutes) || payload.minutes <= 0) {
+        return invalid('INVALID_MESSAGE', 'SET_SLEEP_TIMER needs a positive payload.minutes');
+      }
+      if (payload.fadeSeconds !== undefined &&
+        (!isFiniteNumber(payload.fadeSeconds) || payload.fadeSeconds < 0 || payload.fadeSeconds > MAX_FADE_SECONDS)) {
+        return invalid('INVALID_MESSAGE', `SET_SLEEP_TIMER payload.fadeSeconds must be between 0 and ${MAX_FADE_SECONDS}`);
+      }
+      return {
+        ok: true,
+        message: { type: 'SET_SLEEP_TIMER', requestId, payload: { minutes: payload.minutes, fadeSeconds: payload.fadeSeconds } },
+      };
+
+    case 'EXTEND_SLEEP_TIMER':
+      if (!isRecord(payload) || !isFiniteNumber(payload.minutes) || payload.minutes <= 0) {
+        return invalid('INVALID_MESSAGE', 'EXTEND_SLEEP_TIMER needs a positive payload.minutes');
+      }
+      return { ok: true, message: { type: 'EXTEND_SLEEP_TIMER', requestId, payload: { minutes: payload.minutes } } };
+
+    case 'CANCEL_SLEEP_TIMER':
+      return { ok: true, message: { type: 'CANCEL_SLEEP_TIMER', requestId } };
+
+    case 'SUBSCRIBE_LEVELS':
+      if (!isRecord(payload) || typeof payload.enabled !== 'boolean') {
+        return invalid('INVALID_MESSAGE', 'SUBSCRIBE_LEVELS needs a boolean payload.enabled');
+      }
+      return { ok: true, message: { type: 'SUBSCRIBE_LEVELS', payload: { enabled: payload.enabled } } };
+
+    case 'GET_SNAPSHOT':
+      return { ok: true, message: { type: 'GET_SNAPSHOT' } };
+
+    case 'PONG':
+      return { ok: true, message: { type: 'PONG' } };
+
+    case 'ERROR':
+      if (!isRecord(payload) || typeof payload.code !== 'string' || typeof payload.message !== 'string') {
+        return invalid('INVALID_MESSAGE', 'ERROR needs payload.code and payload.message strings');
+      }
+      return { ok: true, message: { type: 'ERROR', payload: { code: payload.code as ProtocolErrorCode, message: payload.message } } };
+
+    default:
+      return invalid('UNKNOWN_TYPE', `Unknown message type: ${String(data.type)}`);
+  }
+}
+
+// both sides speak the lower of the two versions, null means the desktop app is too old for us
+export function negotiateProtocolVersion(peerVersion: number) {
+  const version = Math.min(peerVersion, PROTOCOL_VERSION);
+  return version >= MIN_PROTOCOL_VERSION ? version : null;
+}
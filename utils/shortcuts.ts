@@ -0,0 +1,33 @@
+/**
+ * KEYBOARD SHORTCUTS (the manifest's commands, handled in the background)
+ * - The commands are declared in wxt.config.ts, the keys are assigned on the browser's shortcuts page
+ *   (only the four most used ones come with a default, Chrome doesn't allow more)
+ * - How far volume up/down move is stored in 'local:shortcutSettings' and edited on the options page
+ */
+
+import { storage } from 'wxt/utils/storage';
+
+export type ShortcutCommand =
+  | 'toggle-mute'
+  | 'volume-up'
+  | 'volume-down'
+  | 'mute-others'
+  | 'pause-all'
+  | 'restore-previous';
+
+export interface ShortcutSettings {
+  volumeStep: number; // how far volume up/down move, 0.1 = 10 percentage points
+}
+
+export const DEFAULT_SHORTCUT_SETTINGS: ShortcutSettings = {
+  volumeStep: 0.1,
+};
+
+export const shortcutSettingsStorage = storage.defineItem<ShortcutSettings>(
+  'local:shortcutSettings',
+  { defaultValue: DEFAULT_SHORTCUT_SETTINGS }
+);
+
+export function isShortcutCommand(command: string): command is ShortcutCommand {
+  return ['toggle-mute', 'volume-up', 'volume-down', 'mute-others', 'pause-all', 'restore-previous'].includes(command);
+}
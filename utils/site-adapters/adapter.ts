@@ -0,0 +1,64 @@
+/**
+ * SITE ADAPTER (what a per-site module can add on top of the generic media handling in content.ts)
+ * - Every part is optional, whatever an adapter leaves out (or can't do right now) the generic path does
+ * - Adapters run in the content script's isolated world: they read the site's DOM, click its controls and reach
+ *   a player API the page put on an element through callPagePlayer(), see utils/media-bridge.ts
+ * - The selectors are what the sites use at the time of writing, once one stops matching the generic path takes over
+ */
+
+import type { MediaInfo, TrackDirection } from '@/utils/tab-state';
+
+// what an adapter can tell about the page's media, reported as part of the tab's MediaInfo
+export type SiteInfo = Partial<Pick<MediaInfo, 'isAd' | 'isLive' | 'queuePosition' | 'queueLength'>>;
+
+export interface SiteAdapter {
+  name: string; // reported as MediaInfo.siteAdapter
+  matches(url: URL): boolean;
+  // the site's own player, it speaks for the tab and gets the transport commands whenever it's tracked
+  mainElement?(): HTMLMediaElement | null;
+  // elements that aren't the site's media (muted previews on hover) are never tracked
+  ignoresElement?(element: HTMLMediaElement): boolean;
+  // read with every report and polled while the tab plays, ads start and queues move without a media event
+  readInfo?(): SiteInfo;
+  // the site sets the volume of every new track itself, the tab's volume is put back when one starts
+  resetsVolume?: boolean;
+  // runs after a whole-tab volume or mute command: the site's own volume control follows it, so the site's UI
+  // agrees and the next track doesn't start at the site's old volume. not for transient changes (ducking, muting
+  // an ad), sites like YouTube save their volume and would keep the ducked one after the tab is closed
+  syncVolume?(volume: number, muted: boolean): void;
+  // through the site's own controls, false leaves it to the generic path
+  togglePlayback?(): boolean;
+  skipTrack?(direction: TrackDirection): boolean;
+}
+
+export function isHost(url: URL, domain: string) {
+  return url.hostname === domain || url.hostname.endsWith(`.${domain}`);
+}
+
+// clicks one of the site's player controls, false when it isn't there or is disabled
+export function clickControl(selector: string) {
+  const control = document.querySelector<HTMLElement>(selector);
+  if (!control || control.hasAttribute('disabled') || control.getAttribute('aria-disabled') === 'true') return false;
+  control.click();
+  return true;
+}
+
+// moves one of the site's range inputs to a fraction of its range, the way a drag would. frameworks like React
+// keep their copy of the value on the page's side of the element, from our world the value is set underneath them
+// and the input event makes them pick it up
+export function setRangeInput(selector: string, fraction: number) {
+  const input = document.querySelector<HTMLInputElement>(selector);
+  if (!input) return false;
+  const min = Number(input.min || 0);
+  const max = Number(input.max || 100);
+  input.value = String(min + (max - min) * Math.min(Math.max(fraction, 0), 1));
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+  input.dispatchEvent(new Event('change', { bubbles: true }));
+  return true;
+}
+
+// "3 / 25" and the like
+export function parseQueuePosition(text: string | null | undefined): SiteInfo {
+  const match = text?.match(/(\d+)\s*\/\s*(\d+)/);
+  return match ? { queuePosition: Number(match[1]), queueLength: Number(match[2]) } : {};
+}
@@ -0,0 +1,39 @@
+/**
+ * SITE ADAPTERS (per-site knowledge on top of the generic media handling in content.ts)
+ * - One module per site, the first adapter matching the frame's URL is used, sites without one stay generic
+ * - Adding a site: write a SiteAdapter (see ./adapter.ts) and list it below
+ * - What adapters do on their own, like muting ads, can be switched off on the options page ('local:siteAdapters')
+ */
+
+import { storage } from 'wxt/utils/storage';
+import type { SiteAdapter } from '@/utils/site-adapters/adapter';
+import { youtubeAdapter } from '@/utils/site-adapters/youtube';
+import { spotifyAdapter } from '@/utils/site-adapters/spotify';
+import { soundcloudAdapter } from '@/utils/site-adapters/soundcloud';
+import { twitchAdapter } from '@/utils/site-adapters/twitch';
+
+export type { SiteAdapter, SiteInfo } from '@/utils/site-adapters/adapter';
+
+const SITE_ADAPTERS: SiteAdapter[] = [youtubeAdapter, spotifyAdapter, soundcloudAdapter, twitchAdapter];
+
+export function findSiteAdapter(href: string) {
+  const url = new URL(href);
+  return SITE_ADAPTERS.find(adapter => adapter.matches(url)) ?? null;
+}
+
+export interface SiteAdapterSettings {
+  muteAds: boolean; // mute the tab while the site's adapter says an ad plays, unmuted again when it's over
+}
+
+export const DEFAULT_SITE_ADAPTER_SETTINGS: SiteAdapterSettings = {
+  muteAds: true,
+};
+
+export const siteAdapterSettingsStorage = storage.defineItem<SiteAdapterSettings>(
+  'local:siteAdapters',
+  { defaultValue: DEFAULT_SITE_ADAPTER_SETTINGS }
+);
+
+export async function loadSiteAdapterSettings(): Promise<SiteAdapterSettings> {
+  return { ...DEFAULT_SITE_ADAPTER_SETTINGS, ...await siteAdapterSettingsStorage.getValue() };
+}
@@ -0,0 +1,16 @@
+/**
+ * SOUNDCLOUD (soundcloud.com, the embeds on w.soundcloud.com have their own frame and stay generic)
+ * - Every track is a new `new Audio()` object (the main-world hooks find them) that starts at SoundCloud's own
+ *   volume, the tab's volume is put back on each one
+ * - Transport goes through the play bar at the bottom, it plays on through SoundCloud's own queue
+ */
+
+import { clickControl, type SiteAdapter } from '@/utils/site-adapters/adapter';
+
+export const soundcloudAdapter: SiteAdapter = {
+  name: 'soundcloud',
+  matches: url => url.hostname === 'soundcloud.com',
+  resetsVolume: true,
+  togglePlayback: () => clickControl('.playControls .playControl'),
+  skipTrack: direction => clickControl(`.playControls .skipControl__${direction === 'next' ? 'next' : 'previous'}`),
+};
@@ -0,0 +1,24 @@
+/**
+ * SPOTIFY WEB PLAYER (open.spotify.com)
+ * - Plays through an element it never attaches (the main-world hooks find it) and keeps its player state apart
+ *   from that element: pausing the element leaves Spotify's UI on "playing", so transport goes through its buttons
+ * - Sets every track's volume from its own slider, the tab's volume is put back and the slider follows it
+ * - The now-playing bar says when an ad plays (free tier). Spotify doesn't show where in the queue a track is,
+ *   there's no queue position
+ */
+
+import { clickControl, setRangeInput, type SiteAdapter } from '@/utils/site-adapters/adapter';
+
+export const spotifyAdapter: SiteAdapter = {
+  name: 'spotify',
+  matches: url => url.hostname === 'open.spotify.com',
+  readInfo: () => ({
+    isAd: document.querySelector('[data-testid="now-playing-widget"] [data-testid="context-item-info-ad-subtitle"]') !== null,
+  }),
+  resetsVolume: true,
+  syncVolume(volume) {
+    setRangeInput('[data-testid="volume-bar"] input[type="range"]', volume);
+  },
+  togglePlayback: () => clickControl('[data-testid="control-button-playpause"]'),
+  skipTrack: direction => clickControl(`[data-testid="control-button-skip-${direction === 'next' ? 'forward' : 'back'}"]`),
+};
@@ -0,0 +1,23 @@
+/**
+ * TWITCH (twitch.tv, clips.twitch.tv)
+ * - Live or not comes from the URL: past broadcasts are under /videos/, clips under /clip/ or on clips.twitch.tv
+ * - Ads play in the same player, which shows an ad label over the video while they do
+ * - The player sets its volume again when it switches between an ad and the stream, the tab's volume is put back
+ *   and the player's slider follows it
+ */
+
+import { isHost, setRangeInput, type SiteAdapter } from '@/utils/site-adapters/adapter';
+
+export const twitchAdapter: SiteAdapter = {
+  name: 'twitch',
+  matches: url => isHost(url, 'twitch.tv'),
+  mainElement: () => document.querySelector<HTMLVideoElement>('[data-a-target="video-player"] video'),
+  readInfo: () => ({
+    isAd: document.querySelector('[data-a-target="video-ad-label"]') !== null,
+    isLive: location.hostname !== 'clips.twitch.tv' && !/\/(videos|clip)\//.test(location.pathname),
+  }),
+  resetsVolume: true,
+  syncVolume(volume) {
+    setRangeInput('[data-a-target="player-volume-slider"]', volume);
+  },
+};
@@ -0,0 +1,28 @@
+/**
+ * YOUTUBE (youtube.com, m.youtube.com, music.youtube.com)
+ * - The video is #movie_player's, the previews that play on hover in feeds are left alone
+ * - #movie_player carries 'ad-showing' while an ad runs, the playlist panel shows the position in the playlist
+ * - YouTube keeps its own volume and puts it back on every video, the player API gets ours as well
+ * - Transport stays generic, YouTube registers media session handlers for next/previous
+ */
+
+import { callPagePlayer } from '@/utils/media-bridge';
+import { isHost, parseQueuePosition, type SiteAdapter } from '@/utils/site-adapters/adapter';
+
+const PLAYER = '#movie_player';
+
+export const youtubeAdapter: SiteAdapter = {
+  name: 'youtube',
+  matches: url => isHost(url, 'youtube.com'),
+  mainElement: () => document.querySelector<HTMLVideoElement>(`${PLAYER} video`),
+  ignoresElement: element => element.closest('#inline-preview-player, ytd-video-preview') !== null,
+  readInfo: () => ({
+    isAd: document.querySelector(`${PLAYER}.ad-showing`) !== null,
+    ...parseQueuePosition(document.querySelector('ytd-playlist-panel-renderer .index-message')?.textContent),
+  }),
+  syncVolume(volume, muted) {
+    // 0..100 on YouTube's side, a boost above 100% stays with our gain stage
+    callPagePlayer({ selector: PLAYER, method: 'setVolume', args: [Math.round(Math.min(volume, 1) * 100)] });
+    callPagePlayer({ selector: PLAYER, method: muted ? 'mute' : 'unMute', args: [] });
+  },
+};
@@ -0,0 +1,100 @@
+/**
+ * SITE RULES (volume/mute, sound effects and loudness normalization the user wants remembered for a site)
+ * - Stored in 'local:siteRules' so they survive browser restarts, unlike the tab states
+ * - Read by the content script when it first detects media, written by the popup and the desktop app
+ */
+
+import { storage } from 'wxt/utils/storage';
+import { clampVolume } from '@/utils/volume';
+import { FLAT_EFFECTS, mergeEffects, type SoundEffects } from '@/utils/sound-effects';
+
+export interface SiteRule {
+  id: string;
+  // 'youtube.com' matches the host and all its subdomains,
+  // anything with a '*' or a '/' is a glob over the full URL, e.g. '*news*' or 'https://twitch.tv/*'
+  pattern: string;
+  volume?: number; // 0..MAX_VOLUME, left out to keep the page's own volume
+  muted?: boolean;
+  effects?: SoundEffects; // equalizer/compressor, left out to keep them flat
+  normalize?: boolean; // overrides the global normalization setting, left out to follow it
+  createdAt: number;
+}
+
+export const siteRulesStorage = storage.defineItem<SiteRule[]>(
+  'local:siteRules',
+  { defaultValue: [] }
+);
+
+function isGlobPattern(pattern: string) {
+  return pattern.includes('*') || pattern.includes('/');
+}
+
+function globToRegExp(pattern: string) {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+export function ruleMatchesUrl(pattern: string, url: string) {
+  if (isGlobPattern(pattern)) {
+    return globToRegExp(pattern).test(url);
+  }
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  const host = pattern.toLowerCase();
+  return hostname === host || hostname.endsWith(`.${host}`);
+}
+
+// the most specific rule wins, a longer pattern is more specific ('music.youtube.com' over 'youtube.com')
+export function findSiteRule(rules: SiteRule[], url: string) {
+  return rules
+    .filter(rule => ruleMatchesUrl(rule.pattern, url))
+    .sort((a, b) => b.pattern.length - a.pattern.length)[0] ?? null;
+}
+
+// adds a rule, or replaces the one that already has the same pattern so "remember" twice doesn't pile up duplicates
+export async function saveSiteRule(rule: Omit<SiteRule, 'id' | 'createdAt' | 'effects'> & { effects?: Partial<SoundEffects> }) {
+  const pattern = rule.pattern.trim();
+  const saved: SiteRule = {
+    id: crypto.randomUUID(),
+    pattern,
+    volume: rule.volume === undefined ? undefined : clampVolume(rule.volume),
+    muted: rule.muted,
+    effects: rule.effects && mergeEffects(FLAT_EFFECTS, rule.effects),
+    normalize: rule.normalize,
+    createdAt: Date.now(),
+  };
+  const rules = await siteRulesStorage.getValue();
+  await siteRulesStorage.setValue([...rules.filter(r => r.pattern !== pattern), saved]);
+  return saved;
+}
+
+// the pattern "remember for this site" uses: the page's host, null for URLs without one
+export function sitePatternOf(url: string) {
+  try {
+    return new URL(url).hostname || null;
+  } catch {
+    return null;
+  }
+}
+
+// changes part of the rule for a pattern and keeps the rest, e.g. saving the effects keeps the remembered volume
+export async function updateSiteRule(pattern: string, changes: Partial<Pick<SiteRule, 'volume' | 'muted' | 'effects' | 'normalize'>>) {
+  const existing = (await siteRulesStorage.getValue()).find(rule => rule.pattern === pattern.trim());
+  return saveSiteRule({
+    pattern,
+    volume: existing?.volume,
+    muted: existing?.muted,
+    effects: existing?.effects,
+    normalize: existing?.normalize,
+    ...changes,
+  });
+}
+
+export async function deleteSiteRule(id: string) {
+  const rules = await siteRulesStorage.getValue();
+  await siteRulesStorage.setValue(rules.filter(rule => rule.id !== id));
+}
@@ -0,0 +1,47 @@
+/**
+ * SLEEP TIMER ("stop all browser audio in 30 minutes")
+ * - Stored in 'session:sleepTimer', set, extended and cancelled by the popup and the desktop app through the helpers below
+ * - The background keeps an alarm in step with the storage, alarms survive a suspended service worker, timeouts don't
+ * - When it goes off every playing tab fades out over fadeSeconds and then pauses, see the sleep timer in content.ts
+ */
+
+import { storage } from 'wxt/utils/storage';
+
+export interface SleepTimer {
+  endsAt: number; // ms timestamp, when the fade starts
+  fadeSeconds: number;
+}
+
+export const DEFAULT_FADE_SECONDS = 10;
+export const MAX_FADE_SECONDS = 120;
+
+// null while no timer is set
+export const sleepTimerStorage = storage.defineItem<SleepTimer | null>(
+  'session:sleepTimer',
+  { defaultValue: null }
+);
+
+export function startSleepTimer(minutes: number, fadeSeconds = DEFAULT_FADE_SECONDS) {
+  return sleepTimerStorage.setValue({
+    endsAt: Date.now() + minutes * 60_000,
+    fadeSeconds: Math.min(Math.max(fadeSeconds, 0), MAX_FADE_SECONDS),
+  });
+}
+
+// resolves with the extended timer, null when there was none to extend
+export async function extendSleepTimer(minutes: number) {
+  const timer = await sleepTimerStorage.getValue();
+  if (!timer) return null;
+  const extended = { ...timer, endsAt: timer.endsAt + minutes * 60_000 };
+  await sleepTimerStorage.setValue(extended);
+  return extended;
+}
+
+export function cancelSleepTimer() {
+  return sleepTimerStorage.setValue(null);
+}
+
+// seconds until the fade starts, what the desktop app and the popup count down from
+export function remainingSeconds(timer: SleepTimer, now = Date.now()) {
+  return Math.max(0, Math.ceil((timer.endsAt - now) / 1000));
+}
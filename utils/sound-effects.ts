@@ -0,0 +1,91 @@
+/**
+ * SOUND EFFECTS (per tab equalizer and compressor)
+ * - A tab's effects are part of its TabAudioState, the content script applies them and reports them back
+ * - Elements get them through the gain stage (our own context), the page's AudioContexts behind their master gain
+ * - Presets are just starting points for the bands, moving a band by hand makes it 'custom'
+ * - Can be saved with a site rule and are reapplied when the site's media shows up, see utils/site-rules.ts
+ */
+
+// center frequencies in Hz, the lowest band is a low shelf and the highest a high shelf, the rest are peaking filters
+export const EQ_BANDS = [60, 230, 910, 3600, 14000];
+export const EQ_MIN_GAIN = -12; // dB
+export const EQ_MAX_GAIN = 12;
+
+export type SoundPreset =
+  | 'flat'
+  | 'bass-boost'
+  | 'voice' // lifts the range speech lives in and takes out rumble, for podcasts and calls
+  | 'custom';
+
+export const SOUND_PRESETS: SoundPreset[] = ['flat', 'bass-boost', 'voice', 'custom'];
+
+const PRESET_BANDS: Record<Exclude<SoundPreset, 'custom'>, number[]> = {
+  'flat': [0, 0, 0, 0, 0],
+  'bass-boost': [8, 5, 0, 0, 0],
+  'voice': [-6, -2, 3, 5, 1],
+};
+
+export interface SoundEffects {
+  preset: SoundPreset;
+  eq: number[]; // gain in dB per EQ_BANDS entry
+  compressor: boolean; // compressor/limiter that keeps sudden loud parts (ads) down
+}
+
+export const FLAT_EFFECTS: SoundEffects = {
+  preset: 'flat',
+  eq: PRESET_BANDS.flat,
+  compressor: false,
+};
+
+// flat effects need no processing at all, the content script leaves the page's audio alone then
+export function isFlat(effects: SoundEffects) {
+  return !effects.compressor && effects.eq.every(gain => gain === 0);
+}
+
+// applies changes on top of the current effects: a preset brings its bands along, bands set by hand make it 'custom'
+export function mergeEffects(current: SoundEffects, changes: Partial<SoundEffects>): SoundEffects {
+  const preset = changes.preset ?? (changes.eq ? 'custom' : current.preset);
+  const presetBands = preset !== 'custom' && !changes.eq ? PRESET_BANDS[preset] : undefined;
+  const eq = (changes.eq ?? presetBands ?? current.eq)
+    .slice(0, EQ_BANDS.length)
+    .map(gain => Math.min(Math.max(gain, EQ_MIN_GAIN), EQ_MAX_GAIN));
+  while (eq.length < EQ_BANDS.length) eq.push(0);
+  return { preset, eq, compressor: changes.compressor ?? current.compressor };
+}
+
+// creates the effect nodes and wires input -> filters -> compressor -> output. the caller disconnects input from
+// output first and keeps the returned nodes to disconnect them when the effects change.
+// connect is a parameter because the main-world hooks have to bypass their own AudioNode.prototype.connect
+export function wireEffectChain(
+  input: AudioNode,
+  output: AudioNode,
+  effects: SoundEffects,
+  connect: (from: AudioNode, to: AudioNode) => void,
+) {
+  const context = input.context;
+  const nodes: AudioNode[] = [];
+  effects.eq.forEach((gain, band) => {
+    if (gain === 0) return; // a flat band is a no-op, no need to run it
+    const filter = context.createBiquadFilter();
+    filter.type = band === 0 ? 'lowshelf' : band === EQ_BANDS.length - 1 ? 'highshelf' : 'peaking';
+    filter.frequency.value = EQ_BANDS[band];
+    filter.Q.value = 1; // about 1.4 octaves wide, neighbouring bands overlap a little
+    filter.gain.value = gain;
+    nodes.push(filter);
+  });
+  if (effects.compressor) {
+    // fast and steep enough to act as a limiter on sudden jumps, gentle enough to leave normal dynamics mostly alone
+    const compressor = context.createDynamicsCompressor();
+    compressor.threshold.value = -24;
+    compressor.knee.value = 12;
+    compressor.ratio.value = 12;
+    compressor.attack.value = 0.003;
+    compressor.release.value = 0.25;
+    nodes.push(compressor);
+  }
+  [input, ...nodes, output].reduce((from, to) => {
+    connect(from, to);
+    return to;
+  });
+  return nodes;
+}
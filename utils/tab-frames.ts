@@ -0,0 +1,79 @@
+/**
+ * TAB FRAMES (merging what the content scripts of a tab's frames report into one tab state)
+ * - Every frame with media keeps its own FrameAudioState inside the tab's state
+ * - The tab-level fields (playing, volume, now playing, streams) are derived from the frames, the frame
+ *   that's playing speaks for the tab, the top frame wins a tie
+ */
+
+import { EMPTY_MEDIA_INFO, type FrameAudioState, type MediaInfo, type TabAudioState } from '@/utils/tab-state';
+import { FLAT_EFFECTS } from '@/utils/sound-effects';
+import { INACTIVE_NORMALIZATION } from '@/utils/normalization';
+
+export function createEmptyFrameState(frameId: number): FrameAudioState {
+  return {
+    frameId,
+    frameUrl: '',
+    hasContentAudio: false,
+    isMuted: false,
+    paused: false,
+    volume: 0,
+    effects: FLAT_EFFECTS,
+    normalization: INACTIVE_NORMALIZATION,
+    streams: [],
+    ...EMPTY_MEDIA_INFO,
+  };
+}
+
+// applies a frame's changes, adding the frame if it's new. keeps the list sorted so the top frame comes first
+export function upsertFrame(frames: FrameAudioState[], frameId: number, changes: Partial<FrameAudioState>) {
+  const current = frames.find(frame => frame.frameId === frameId) ?? createEmptyFrameState(frameId);
+  return [...frames.filter(frame => frame.frameId !== frameId), { ...current, ...changes, frameId }]
+    .sort((a, b) => a.frameId - b.frameId);
+}
+
+export function removeFrame(frames: FrameAudioState[], frameId: number) {
+  return frames.filter(frame => frame.frameId !== frameId);
+}
+
+function mediaInfoOf(frame: FrameAudioState): MediaInfo {
+  const {
+    mediaTitle, mediaArtist, mediaAlbum, artworkUrl, mediaSrc, currentTime, positionUpdatedAt, duration, playbackRate,
+    siteAdapter, isAd, isLive, queuePosition, queueLength,
+  } = frame;
+  return {
+    mediaTitle, mediaArtist, mediaAlbum, artworkUrl, mediaSrc, currentTime, positionUpdatedAt, duration, playbackRate,
+    siteAdapter, isAd, isLive, queuePosition, queueLength,
+  };
+}
+
+// the tab-level fields for a set of frames
+export function aggregateFrames(frames: FrameAudioState[]): Partial<TabAudioState> {
+  const withMedia = frames.filter(frame => frame.hasContentAudio);
+  const playing = withMedia.filter(frame => !frame.paused);
+  const representative = playing[0] ?? withMedia[0] ?? frames[0];
+  const streams = frames.flatMap(frame => frame.streams.map(stream => ({ ...stream, frameId: frame.frameId })));
+
+  if (!representative) {
+    return { hasContentAudio: false, paused: false, streams, ...EMPTY_MEDIA_INFO };
+  }
+  return {
+    hasContentAudio: withMedia.length > 0,
+    paused: withMedia.length > 0 && playing.length === 0,
+    isMuted: representative.isMuted,
+    volume: representative.volume,
+    effects: representative.effects,
+    normalization: representative.normalization,
+    streams,
+    ...mediaInfoOf(representative),
+  };
+}
+
+// the frames a command for the whole tab has to reach: every frame with media, the top frame when none reported yet
+export function commandFrameIds(tab: TabAudioState | undefined, streamId?: string) {
+  if (streamId !== undefined) {
+    const stream = tab?.streams.find(s => s.streamId === streamId);
+    return stream?.frameId !== undefined ? [stream.frameId] : [0];
+  }
+  const frameIds = (tab?.frames ?? []).filter(frame => frame.hasContentAudio).map(frame => frame.frameId);
+  return frameIds.length > 0 ? frameIds : [0];
+}
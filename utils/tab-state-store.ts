@@ -0,0 +1,127 @@
+/**
+ * TAB STATE STORE (the one place the background keeps tab audio states)
+ * - Lives in memory so a mutation is a synchronous read-modify-write, nothing can interleave with it
+ * - Mutations are queued behind the rehydration from storage, so events that arrive while the
+ *   service worker is still starting up are applied in order on top of the persisted state
+ * - Persists to storage in debounced batches instead of once per event
+ * - Subscribers are called after every mutation, the popup and the WebSocket senders hang off this
+ */
+
+import type { WxtStorageItem } from 'wxt/utils/storage';
+import { EMPTY_MEDIA_INFO, type TabAudioState } from '@/utils/tab-state';
+import { FLAT_EFFECTS } from '@/utils/sound-effects';
+import { INACTIVE_NORMALIZATION } from '@/utils/normalization';
+
+export type TabStates = Record<number, TabAudioState>;
+export type TabStatesListener = (states: TabStates) => void;
+
+// gets the tab's current state (undefined for a tab we know nothing about) and returns the fields to change,
+// or null to leave the tab alone (e.g. a 'stopped' report for a tab we never saw playing)
+export type TabStateUpdater = (current: TabAudioState | undefined) => Partial<TabAudioState> | null;
+
+// what a tab looks like before anything reported about it
+export function createEmptyTabState(tabId: number): TabAudioState {
+  return {
+    tabId,
+    tabUrl: '',
+    tabTitle: '',
+    incognito: false,
+    isAudible: false,
+    hasContentAudio: false,
+    isMuted: false,
+    tabMutedBy: null,
+    paused: false,
+    volume: 0,
+    effects: FLAT_EFFECTS,
+    normalization: INACTIVE_NORMALIZATION,
+    streams: [],
+    frames: [],
+    ...EMPTY_MEDIA_INFO,
+    lastUpdate: Date.now(),
+  };
+}
+
+export function createTabStateStore(
+  storageItem: WxtStorageItem<TabStates, {}>,
+  persistDelay = 500,
+) {
+  let states: TabStates = {};
+  const listeners = new Set<TabStatesListener>();
+  let persistTimeout: ReturnType<typeof setTimeout> | undefined;
+
+  // every read and write is chained on this, the first link is the rehydration
+  let queue: Promise<unknown> = storageItem.getValue().then(persisted => {
+    // states persisted by an older version lack the fields added since, the empty state fills them in
+    states = Object.fromEntries(
+      Object.entries(persisted).map(([tabId, state]) => [tabId, { ...createEmptyTabState(Number(tabId)), ...state }])
+    );
+  });
+
+  function enqueue<T>(task: () => T): Promise<T> {
+    const result = queue.then(task);
+    queue = result.catch(err => console.error('Tab state store task failed:', err));
+    return result;
+  }
+
+  function schedulePersist() {
+    clearTimeout(persistTimeout);
+    persistTimeout = setTimeout(() => {
+      storageItem.setValue(states);
+    }, persistDelay);
+  }
+
+  function notify() {
+    listeners.forEach(listener => listener(states));
+  }
+
+  return {
+    // resolves with every state once all mutations queued before the call are applied
+    getAll() {
+      return enqueue(() => ({ ...states }));
+    },
+
+    get(tabId: number) {
+      return enqueue(() => states[tabId]);
+    },
+
+    // applies the updater's changes on top of the tab's current state, creating the tab if needed
+    update(tabId: number, updater: TabStateUpdater) {
+      return enqueue(() => {
+        const current = states[tabId];
+        const changes = updater(current);
+        if (changes === null) return current;
+        states = {
+          ...states,
+          [tabId]: {
+            ...(current ?? createEmptyTabState(tabId)),
+            ...changes,
+            lastUpdate: Date.now(),
+          },
+        };
+        schedulePersist();
+        notify();
+        return states[tabId];
+      });
+    },
+
+    remove(tabId: number) {
+      return enqueue(() => {
+        if (!(tabId in states)) return;
+        const { [tabId]: _removed, ...rest } = states;
+        states = rest;
+        schedulePersist();
+        notify();
+      });
+    },
+
+    // returns the unsubscribe function
+    subscribe(listener: TabStatesListener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export type TabStateStore = ReturnType<typeof createTabStateStore>;
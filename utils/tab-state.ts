@@ -0,0 +1,115 @@
+import type { SoundEffects } from '@/utils/sound-effects';
+import type { NormalizationState } from '@/utils/normalization';
+
+// now-playing info the content script reads from navigator.mediaSession and the active media element
+export interface MediaInfo {
+  mediaTitle: string; // song/video title from the page's media session, '' when the page doesn't set one
+  mediaArtist: string;
+  mediaAlbum: string;
+  artworkUrl: string;
+  mediaSrc: string; // currentSrc of the active element
+  currentTime: number; // seconds, only re-reported every few seconds while playing, extrapolate with playbackRate
+  positionUpdatedAt: number; // when currentTime was read, the base for extrapolating
+  duration: number | null; // seconds, null for live streams or before the metadata loaded
+  playbackRate: number;
+  // from the site adapter when the page has one (see utils/site-adapters), the generic defaults otherwise
+  siteAdapter: string | null; // e.g. 'youtube', null on sites without an adapter
+  isAd: boolean; // an ad is playing instead of the actual media
+  isLive: boolean | null; // null when the adapter can't tell, duration is null for live streams too
+  queuePosition: number | null; // 1-based position in the site's playlist/queue, null without one
+  queueLength: number | null;
+}
+
+export const EMPTY_MEDIA_INFO: MediaInfo = {
+  mediaTitle: '',
+  mediaArtist: '',
+  mediaAlbum: '',
+  artworkUrl: '',
+  mediaSrc: '',
+  currentTime: 0,
+  positionUpdatedAt: 0,
+  duration: null,
+  playbackRate: 1,
+  siteAdapter: null,
+  isAd: false,
+  isLive: null,
+  queuePosition: null,
+  queueLength: null,
+};
+
+// a single media element of a tab, so pages with several players can be mixed per element.
+// 'webaudio' streams are the page's AudioContexts (games, synths, web DAWs), controlled through a master gain
+export interface StreamState {
+  streamId: string; // stable for as long as the page lives and unique across the tab's frames, commands can target it
+  frameId?: number; // the frame the element lives in, filled in by the background
+  kind: 'audio' | 'video' | 'webaudio';
+  src: string;
+  volume: number; // 0..MAX_VOLUME like the tab volume
+  muted: boolean;
+  paused: boolean;
+}
+
+// what one frame of a tab reported, the top frame is 0. embedded players (YouTube, Vimeo, SoundCloud...) live in
+// their own frames with their own content script, the background merges all frames into the tab's state
+export interface FrameAudioState extends MediaInfo {
+  frameId: number;
+  frameUrl: string;
+  hasContentAudio: boolean;
+  isMuted: boolean;
+  paused: boolean;
+  volume: number;
+  effects: SoundEffects;
+  normalization: NormalizationState;
+  streams: StreamState[];
+}
+
+// who muted the tab itself (the speaker icon on the tab strip), apart from isMuted which is about the page's elements.
+// 'us' when we fell back to it because the page had nothing we could mute, 'browser' for the user's own
+// "Mute site" or another extension, null while the tab isn't muted
+export type TabMuteSource = 'us' | 'browser' | null;
+
+// the audio state we keep for every tab, this is what gets stored in 'local:tabStates'
+// and what the popup and the desktop app receive in their tab lists
+export interface TabAudioState extends MediaInfo {
+  tabId: number;
+  tabUrl: string;
+  tabTitle: string;
+  incognito: boolean; // the tab belongs to an incognito window
+  isAudible: boolean;
+  hasContentAudio: boolean;
+  isMuted: boolean; // the page's elements are muted (or at volume 0)
+  tabMutedBy: TabMuteSource; // from the tab's mutedInfo
+  paused: boolean;
+  volume: number; // 0..MAX_VOLUME, anything above 1 is the gain boost from the content script
+  effects: SoundEffects; // equalizer and compressor, flat unless someone set them
+  normalization: NormalizationState; // the loudness correction applied on top of volume
+  streams: StreamState[]; // the tab's individual elements, volume/isMuted/paused above summarize the one currently playing
+  frames: FrameAudioState[]; // the frames that reported media, sorted by frameId. the fields above summarize them
+  lastUpdate: number;
+}
+
+// transport controls the popup and the desktop app can send to a tab
+export type PlaybackAction = 'play' | 'pause' | 'toggle';
+export type SeekMode = 'absolute' | 'relative'; // absolute seeks to `position` seconds, relative moves by `position` seconds
+export type TrackDirection = 'next' | 'previous';
+
+// muted one way or the other, what the mute buttons toggle
+export function isTabMuted(tab: Pick<TabAudioState, 'isMuted' | 'tabMutedBy'>) {
+  return tab.isMuted || tab.tabMutedBy !== null;
+}
+
+// what the content script answers to a volume/mute/transport command
+export interface TabCommandResult {
+  affected: number; // how many media elements the command changed, 0 means the tab has nothing to control
+  // NOT_SUPPORTED: the tab has media but no way to do this (e.g. next track on a page without a playlist)
+  // STREAM_NOT_FOUND: the command targeted a stream id the page doesn't have (anymore)
+  error?: 'NOT_SUPPORTED' | 'STREAM_NOT_FOUND';
+  state: Pick<TabAudioState, 'volume' | 'isMuted' | 'paused'> | null; // the state the elements ended up in
+}
+
+// live meter readings for a tab, linear amplitude 0..1 (above 1 when boosted)
+export interface AudioLevels {
+  tabId: number;
+  peak: number;
+  rms: number;
+}
@@ -0,0 +1,14 @@
+// volume is a plain multiplier everywhere in the extension: 1 is the element's own 100%,
+// anything above that is boosted through the content script's gain stage (see content.ts)
+export const MAX_VOLUME = 3; // 300%
+
+// clamp volumes coming from the popup slider or the desktop app into the range we can actually apply
+export function clampVolume(volume: number) {
+  if (!Number.isFinite(volume)) return 0;
+  return Math.min(Math.max(volume, 0), MAX_VOLUME);
+}
+
+// volume and mute commands can fade instead of jumping, see the volume ramps in content.ts.
+// the popup's and the shortcuts' mute button fade this long, just enough to take the click out
+export const MUTE_RAMP_MS = 150;
+export const MAX_RAMP_MS = 10_000;
@@ -4,9 +4,34 @@ import { defineConfig } from 'wxt';
 export default defineConfig({
   modules: ['@wxt-dev/module-vue'],
   manifest: {
-    permissions: ['storage'],
-    host_permissions: ["127.0.0.1"],
+    // no host_permissions: extension WebSockets don't need any, whichever host the options page points them at
+    permissions: ['storage', 'alarms', 'offscreen'],
     minimum_chrome_version: "116",
+    // handled in background.ts, see utils/shortcuts.ts
+    commands: {
+      'toggle-mute': {
+        suggested_key: { default: 'Alt+Shift+M' },
+        description: 'Mute or unmute the current tab',
+      },
+      'volume-up': {
+        suggested_key: { default: 'Alt+Shift+Up' },
+        description: 'Turn the current tab up',
+      },
+      'volume-down': {
+        suggested_key: { default: 'Alt+Shift+Down' },
+        description: 'Turn the current tab down',
+      },
+      'mute-others': {
+        suggested_key: { default: 'Alt+Shift+O' },
+        description: 'Mute every tab except the current one',
+      },
+      'pause-all': {
+        description: 'Pause media in every tab',
+      },
+      'restore-previous': {
+        description: 'Undo what the last shortcut changed',
+      },
+    },
   },
   
 });